@@ -0,0 +1,66 @@
+/**
+ * Deterministic fixture data for the mock Vaidio server. Images are small
+ * baseline JPEGs (96x54), one per camera, so every run serves identical bytes.
+ */
+
+export interface MockCamera {
+  cameraId: number;
+  name: string;
+  status: string;
+  cscState: string;
+  cameraType: string;
+  resolution: { width: number; height: number };
+  snapshot: string;
+  thumbnail: string;
+}
+
+export const cameras: MockCamera[] = [
+  { id: 1, name: 'Main Entrance', status: 'Processing', type: 'IP' },
+  { id: 2, name: 'Loading Dock', status: 'Processing', type: 'IP' },
+  { id: 3, name: 'Parking Lot North', status: 'Processing', type: 'RTSP' },
+  { id: 4, name: 'Warehouse Aisle 4', status: 'Stopped', type: 'RTSP' },
+].map((c) => ({
+  cameraId: c.id,
+  name: c.name,
+  status: c.status,
+  cscState: c.status === 'Processing' ? 'Running' : 'Idle',
+  cameraType: c.type,
+  resolution: { width: 1920, height: 1080 },
+  snapshot: `api/streaming/${c.id}/live.jpg`,
+  thumbnail: `api/streaming/${c.id}/live.jpg`,
+}));
+
+const IMAGES_BASE64: Record<number, string> = {
+  1:
+    '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9PjsBCgsLDg0OHBAQHDsoIig7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7O//AABEIADYAYAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AOCxXrHBcMUBcMUBcMUBcMUBcMUBcMUBcMUBcMUBcMUBcMUBcMUBck21RIbaADbQAbaADbQAbaADbQAbaADbQAbaADbQAbaAJNtUINtABtoANtABtoANtABtoANtABtoANtABtoANtAEm2qsSbFh4R1zU7OO8s7HzYJM7X81BnBIPBOeoNZSrU4uzZoqc5K6RY/4QLxL/wBA3/yPH/8AFVP1il3H7GfY5/bW9jINtFgDbRYA20WANtFgDbRYA20WANtFgDbRYCTbVWEev+BePB1j/wBtP/RjV5GJ/is9Cj/DR0FYGp4Btr3rHlBtosAbaLAG2iwBtosAbaLAG2iwBtosAbaLAN+0R/3Zf+/L/wCFT7SPn9z/AMh8j/po67Q/iJHoujwaf/Zcs3k7vny65yxPTYfWuOrRU5uV39zOmFRwja34o0P+Fsx/9AWX/v4//wAbrP6su7/8BZXtn2/FHA/aI/7sv/fl/wDCvQ9pHz+5/wCRycj/AKaD7RH/AHZf+/L/AOFHtI+f3P8AyDkf9NB9oj/uy/8Afl/8KPaR8/uf+Qcj/poPtEf92X/vy/8AhR7SPn9z/wAg5H/TQfaI/wC7L/35f/Cj2kfP7n/kHI/6aD7RH/dl/wC/L/4Ue0j5/c/8g5H/AE0H2iP+7L/35f8Awo9pHz+5/wCQcj/poPtEf92X/vy/+FHtI+f3P/IOR/00H2iP+7L/AN+X/wAKPaR8/uf+Qcj/AKaLOK2MwxQAYoAMUAGKADFABigAxQAYoAMUAGKADFAH/9k=',
+  2:
+    '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9PjsBCgsLDg0OHBAQHDsoIig7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7O//AABEIADYAYAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AOD21xHr2DbQFg20BYNtAWDbQFg20BYNtAWDbQFg20BYNtAWDbQFg20BYk20i7BtoCwbaAsG2gLBtoCwbaAsG2gLBtoCwbaAsG2gLBtoCwbaAsSbaRVg20BYNtAWDbQFg20BYNtAWDbQFg20BYNtAWDbQFg20BYNtAWJNtIqwbaAsG2gLGhpWgalrfm/2dbef5ON/wA6rjOcdSPQ1UYuWxnOpCHxM0P+ED8S/wDQN/8AI8f/AMVVeyn2M/rFLv8AmY9/p9zpl5JZ3kXlTx43JuBxkAjkcdCKhpp2ZtGSkror7aRVg20BYNtAWDbQFg20BYNtAWJNtIqwbaAsG2gLHf8AwuGP7U/7Y/8As9dFDqefjfs/M7+uk888g8dDPjC+/wC2f/ota4qvxs9jDfwl/XUwNtZnRYNtAWDbQFg20BYNtAWDbQFhv2iP+7L/AN+X/wAKfK/6aJ9pHz+5/wCQfaI/7sv/AH5f/Cjlf9NB7SPn9z/yD7RH/dl/78v/AIUcr/poPaR8/uf+RveF/GEfhv7V/oMtz9o2dnTbt3f7Jz96tKcnC/8AmjnrwjVtq1byZv8A/C2I/wDoCy/99v8A/G619q+34o5vqse7/wDAWcjrmuR61rE+ofZ5YfO2/J5btjCgddo9KwneUr/qjtpONOCjr9zKH2iP+7L/AN+X/wAKnlf9NGntI+f3P/IPtEf92X/vy/8AhRyv+mg9pHz+5/5B9oj/ALsv/fl/8KOV/wBNB7SPn9z/AMg+0R/3Zf8Avy/+FHK/6aD2kfP7n/kH2iP+7L/35f8Awo5X/TQe0j5/c/8AIPtEf92X/vy/+FHK/wCmg9pHz+5/5FnFZm4YoAMUAGKADFABigAxQAYoAMUAGKADFABigD//2Q==',
+  3:
+    '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9PjsBCgsLDg0OHBAQHDsoIig7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7O//AABEIADYAYAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AOK21znnBtoANtABtoANtABtoANtABtoANtABtoANtABtoAk20ibhtoC4baAuG2gLhtoC4baAuG2gLhtoC4baAuG2gLhtoC4baAuS7aRIbaADbQAbaADbQAbaADbQAbaADbQAbaADbQAbaAJdtIkNtABtoANtABtoAnsbC51G7S0tI/MmkztXcBnAJPJ46A00rlRTk7I1/8AhB/EX/QO/wDI0f8A8VVckjT2NTsUNT0LUdG8r+0LbyfOzs+dWzjGehPqKTTW5EoSh8RQ21JAbaADbQAbaAJdtArhtoC4baAuG2gLhtoC5u+Clx4tsv8Atp/6Laqh8RtQ/iI9XrpPSOF+JYz/AGb/ANtf/ZKxq9DjxXQ4XbWRx3DbQFw20BcNtAXGfaov7k//AH4f/CizHyPy+9B9qi/uT/8Afh/8KLMOR+X3oPtUX9yf/vw/+FFmHI/L70H2qL+5P/34f/CizDkfl96D7VF/cn/78P8A4UWYcj8vvRe0XXItI1aG/wDs883lbvk8p1zlSOu0+tVG6dzSmnCSlp96Oq/4WnH/ANAaf83/APjdac77fidPt32X3ow/Eni+LxD9m/0Ge38jd/A77t2P9gelRJuRjVk6ltvvRh/aov7k/wD34f8AwqLMw5H5feg+1Rf3J/8Avw/+FFmHI/L70H2qL+5P/wB+H/wosw5H5feg+1Rf3J/+/D/4UWYcj8vvRc2ipMg2igA2igA2igA2igA2igA2igA2igA2igA2igA2igA2igD/AP/Z',
+  4:
+    '/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAoHBwgHBgoICAgLCgoLDhgQDg0NDh0VFhEYIx8lJCIfIiEmKzcvJik0KSEiMEExNDk7Pj4+JS5ESUM8SDc9PjsBCgsLDg0OHBAQHDsoIig7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7O//AABEIADYAYAMBEQACEQEDEQH/xAGiAAABBQEBAQEBAQAAAAAAAAAAAQIDBAUGBwgJCgsQAAIBAwMCBAMFBQQEAAABfQECAwAEEQUSITFBBhNRYQcicRQygZGhCCNCscEVUtHwJDNicoIJChYXGBkaJSYnKCkqNDU2Nzg5OkNERUZHSElKU1RVVldYWVpjZGVmZ2hpanN0dXZ3eHl6g4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2drh4uPk5ebn6Onq8fLz9PX29/j5+gEAAwEBAQEBAQEBAQAAAAAAAAECAwQFBgcICQoLEQACAQIEBAMEBwUEBAABAncAAQIDEQQFITEGEkFRB2FxEyIygQgUQpGhscEJIzNS8BVictEKFiQ04SXxFxgZGiYnKCkqNTY3ODk6Q0RFRkdISUpTVFVWV1hZWmNkZWZnaGlqc3R1dnd4eXqCg4SFhoeIiYqSk5SVlpeYmZqio6Slpqeoqaqys7S1tre4ubrCw8TFxsfIycrS09TV1tfY2dri4+Tl5ufo6ery8/T19vf4+fr/2gAMAwEAAhEDEQA/AON215lzUNtFwDbRcA20XANtFwDbRcA20XANtFwDbRcA20XANtFwDbRcCXbSGG2gA20AG2gA20AG2gA20AG2gA20AG2gA20AG2gCXbUgG2gA20AG2gA20AG2gA20AG2gA20AG2gA20AG2gCXbSGG2gA20AG2gA20AG2gA20AG2gDc/4QjxD/ANA//wAjR/8AxVbewqdieZEF74W1nTrR7u7s/LhjxubzUOMnA4Bz1NTKlOKu0NNMyttZjDbQBLtqQDbQAbaADbQAbaADbQAbaADbQB7hXsmBh+M+fCl7/wBs/wD0Naxr/wANlR3PK9teYahtoAZ9ri/uT/8AgPJ/hT5H5feguH2uL+5P/wCA8n+FHI/L70Fw+1xf3J//AAHk/wAKOR+X3oLh9ri/uT/+A8n+FHI/L70Fw+1xf3J//AeT/Cjkfl96C4fa4v7k/wD4Dyf4Ucj8vvQXD7XF/cn/APAeT/Cjkfl96C4fa4v7k/8A4Dyf4Ucj8vvQXO2/4WjF/wBAef8A8if/ABuu76w+y+9GfKUtZ+IEWraVNY/2ZPF5u359sjYwwPTYPSs6lVzi42X3oaVnc5b7XF/cn/8AAeT/AArl5H5fei7h9ri/uT/+A8n+FHI/L70Fy5trK5QbaLgG2i4BtouAbaLgG2i4BtouAbaLgG2i4BtouAbaLgG2i4H/2Q==',
+};
+
+export function cameraImage(cameraId: number) {
+  const encoded = IMAGES_BASE64[cameraId];
+  if (!encoded) return null;
+  return Uint8Array.from(atob(encoded), (c) => c.charCodeAt(0));
+}
+
+// Alert times are relative to the server clock (see `now` in the scenario)
+export const alerts = [
+  { id: 'alert-1', type: 'Intrusion', state: 'Open', cameraId: 2, offsetMinutes: 5, message: 'Person detected in restricted area' },
+  { id: 'alert-2', type: 'Loitering', state: 'Acknowledged', cameraId: 1, offsetMinutes: 42 },
+  { id: 'alert-3', type: 'VehicleStopped', state: 'Open', cameraId: 3, offsetMinutes: 90 },
+  { id: 'alert-4', type: 'Intrusion', state: 'Closed', cameraId: 2, offsetMinutes: 360 },
+];
+
+export const modules = [
+  { name: 'FaceRecognition', enabled: true },
+  { name: 'PeopleCounting', enabled: true },
+  { name: 'NaturalLanguageSearch', enabled: true },
+];
+
+export const ainvrs = [
+  { id: 1, name: 'mock-ainvr-01', version: '8.2.0', status: 'Online' },
+];
@@ -0,0 +1,293 @@
+/**
+ * Mock Vaidio server for local development and automated tests.
+ *
+ * Serves every endpoint this plugin uses with fixture data and supports
+ * scripted failures through a small control API:
+ *
+ *   POST /__mock/scenario   merge a Scenario (JSON) into the active one
+ *   POST /__mock/reset      back to defaults, revoke tokens, clear the log
+ *   POST /__mock/revoke     revoke all issued tokens (simulates an NVR restart)
+ *   GET  /__mock/requests   request log, for assertions
+ *
+ * Run: deno run --allow-net --allow-read mock-vaidio/server.ts [--port 8380] [--scenario file.json]
+ */
+
+import { ainvrs, alerts, cameraImage, cameras, modules } from "./fixtures.ts";
+
+export interface Scenario {
+  username: string;
+  password: string;
+  /** Seconds until an issued access token expires */
+  tokenTtlSeconds: number;
+  /** Whether the token endpoint also issues refresh tokens */
+  issueRefreshTokens: boolean;
+  /** Reject the next N token requests with 401 */
+  failNextTokenRequests: number;
+  /** Answer the next N API requests with 401, even with a valid token */
+  rejectNextApiRequests: number;
+  /** Extra latency (ms) for every request */
+  latencyMs: number;
+  /** Extra latency (ms) for specific cameras' live.jpg */
+  slowCameras: Record<string, number>;
+  /** Cameras whose live.jpg never answers (the client must time out) */
+  hangingCameras: number[];
+  /** Cameras whose live.jpg sends headers and half the image, then stalls */
+  stallingCameras: number[];
+  /** Cameras whose live.jpg answers with the given HTTP status */
+  failingCameras: Record<string, number>;
+  /** Fixed ISO clock for alert/counting/scene timestamps; real time when null */
+  now: string | null;
+  /** Whether live.jpg sends an ETag and answers a matching If-None-Match with 304 */
+  sendEtags: boolean;
+}
+
+const DEFAULT_SCENARIO: Scenario = {
+  username: 'admin',
+  password: 'admin',
+  tokenTtlSeconds: 3600,
+  issueRefreshTokens: true,
+  failNextTokenRequests: 0,
+  rejectNextApiRequests: 0,
+  latencyMs: 0,
+  slowCameras: {},
+  hangingCameras: [],
+  stallingCameras: [],
+  failingCameras: {},
+  now: null,
+  sendEtags: true,
+};
+
+interface RequestLogEntry {
+  at: string;
+  method: string;
+  path: string;
+  status: number;
+}
+
+let scenario: Scenario = { ...DEFAULT_SCENARIO };
+const accessTokens = new Map<string, number>();
+const refreshTokens = new Set<string>();
+let requestLog: RequestLogEntry[] = [];
+let tokenCounter = 0;
+
+function clock(): number {
+  return scenario.now ? Date.parse(scenario.now) : Date.now();
+}
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(timer); resolve(); });
+  });
+}
+
+function issueToken() {
+  tokenCounter++;
+  const accessToken = `mock-access-${tokenCounter}`;
+  accessTokens.set(accessToken, Date.now() + scenario.tokenTtlSeconds * 1000);
+  const body: Record<string, unknown> = {
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: scenario.tokenTtlSeconds,
+  };
+  if (scenario.issueRefreshTokens) {
+    const refreshToken = `mock-refresh-${tokenCounter}`;
+    refreshTokens.add(refreshToken);
+    body.refresh_token = refreshToken;
+  }
+  return json(body);
+}
+
+async function handleToken(req: Request): Promise<Response> {
+  if (req.method !== 'POST') return json({ error: 'method_not_allowed' }, 405);
+  if (scenario.failNextTokenRequests > 0) {
+    scenario.failNextTokenRequests--;
+    return json({ error: 'invalid_grant' }, 401);
+  }
+
+  const form = new URLSearchParams(await req.text());
+  const grantType = form.get('grant_type');
+  if (grantType === 'password') {
+    if (form.get('username') !== scenario.username || form.get('password') !== scenario.password) {
+      return json({ error: 'invalid_grant' }, 401);
+    }
+    return issueToken();
+  }
+  if (grantType === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') ?? '';
+    if (!refreshTokens.delete(refreshToken)) return json({ error: 'invalid_grant' }, 401);
+    return issueToken();
+  }
+  return json({ error: 'unsupported_grant_type' }, 400);
+}
+
+function isAuthorized(req: Request): boolean {
+  const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const expiresAt = accessTokens.get(token);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+async function handleSnapshot(cameraId: number, req: Request): Promise<Response> {
+  if (scenario.hangingCameras.includes(cameraId)) {
+    // Hold the connection until the client gives up
+    await sleep(10 * 60 * 1000, req.signal);
+    return json({ error: 'gateway_timeout' }, 504);
+  }
+
+  const failStatus = scenario.failingCameras[String(cameraId)];
+  if (failStatus) return json({ error: 'camera_error' }, failStatus);
+
+  const delay = scenario.slowCameras[String(cameraId)];
+  if (delay) await sleep(delay, req.signal);
+
+  const image = cameraImage(cameraId);
+  if (!image) return json({ error: 'not_found' }, 404);
+  if (scenario.stallingCameras.includes(cameraId)) {
+    // Headers go out at once; the rest of the body never comes
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(image.slice(0, image.length / 2));
+        await sleep(10 * 60 * 1000, req.signal);
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'image/jpeg' } });
+  }
+  if (!scenario.sendEtags) return new Response(image, { headers: { 'Content-Type': 'image/jpeg' } });
+
+  // Fixture frames never change, so one tag per camera is enough
+  const etag = `"mock-camera-${cameraId}"`;
+  if (req.headers.get('If-None-Match')?.split(',').some((tag) => tag.trim() === etag)) {
+    return new Response(null, { status: 304, headers: { 'ETag': etag } });
+  }
+  return new Response(image, { headers: { 'Content-Type': 'image/jpeg', 'ETag': etag } });
+}
+
+function handleApi(path: string, url: URL, req: Request): Promise<Response> | Response {
+  const streaming = path.match(/^\/api\/streaming\/(\d+)\/live\.jpg$/);
+  if (streaming) return handleSnapshot(Number(streaming[1]), req);
+
+  const camera = path.match(/^\/api\/cameras\/(\d+)$/);
+  if (camera) {
+    const found = cameras.find((c) => c.cameraId === Number(camera[1]));
+    return found ? json(found) : json({ error: 'not_found' }, 404);
+  }
+
+  switch (path) {
+    case '/api/cameras': {
+      const statuses = url.searchParams.get('statuses')?.split(',').filter(Boolean);
+      const content = statuses?.length ? cameras.filter((c) => statuses.includes(c.status)) : cameras;
+      return json({ content, totalElements: content.length });
+    }
+    case '/api/alerts': {
+      const now = clock();
+      const start = Date.parse(url.searchParams.get('start') ?? '') || 0;
+      const end = Date.parse(url.searchParams.get('end') ?? '') || now;
+      const cameraIds = url.searchParams.get('cameraIds')?.split(',').map(Number);
+      const content = alerts
+        .map(({ offsetMinutes, ...a }) => ({ ...a, datetime: new Date(now - offsetMinutes * 60000).toISOString() }))
+        .filter((a) => {
+          const t = Date.parse(a.datetime);
+          return t >= start && t <= end && (!cameraIds?.length || cameraIds.includes(a.cameraId));
+        });
+      return json({ content, totalElements: content.length });
+    }
+    case '/api/counting': {
+      // Hourly buckets for the last 6 hours with a fixed shape
+      const hour = Math.floor(clock() / 3600000) * 3600000;
+      const content = [12, 18, 25, 31, 22, 9].map((inCount, i) => ({
+        datetime: new Date(hour - (5 - i) * 3600000).toISOString(),
+        inCount,
+        outCount: Math.round(inCount * 0.8),
+      }));
+      return json({ content });
+    }
+    case '/api/scenes': {
+      const query = url.searchParams.get('query') ?? '';
+      const now = clock();
+      const content = query
+        ? cameras.slice(0, 2).map((c, i) => ({
+          id: 100 + i,
+          cameraId: c.cameraId,
+          datetime: new Date(now - (i + 1) * 15 * 60000).toISOString(),
+          thumbnailUrl: c.thumbnail,
+        }))
+        : [];
+      return json({ content });
+    }
+    case '/api/ainvrs':
+      return json({ content: ainvrs });
+    case '/api/modules':
+      return json({ content: modules });
+    default:
+      return json({ error: 'not_found' }, 404);
+  }
+}
+
+async function handleControl(path: string, req: Request): Promise<Response> {
+  switch (path) {
+    case '/__mock/scenario':
+      if (req.method === 'POST') scenario = { ...scenario, ...(await req.json()) };
+      return json(scenario);
+    case '/__mock/reset':
+      scenario = { ...DEFAULT_SCENARIO };
+      accessTokens.clear();
+      refreshTokens.clear();
+      requestLog = [];
+      return json(scenario);
+    case '/__mock/revoke':
+      accessTokens.clear();
+      return json({ revoked: true });
+    case '/__mock/requests':
+      return json(requestLog);
+    default:
+      return json({ error: 'not_found' }, 404);
+  }
+}
+
+export async function handler(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+
+  if (url.pathname.startsWith('/__mock/')) return handleControl(url.pathname, req);
+
+  if (scenario.latencyMs) await sleep(scenario.latencyMs, req.signal);
+
+  let response: Response;
+  if (!url.pathname.startsWith('/ainvr/')) {
+    response = json({ error: 'not_found' }, 404);
+  } else {
+    const path = url.pathname.slice('/ainvr'.length);
+    if (path === '/api/oauth2/token') {
+      response = await handleToken(req);
+    } else if (!isAuthorized(req)) {
+      response = json({ error: 'unauthorized' }, 401);
+    } else if (scenario.rejectNextApiRequests > 0) {
+      scenario.rejectNextApiRequests--;
+      response = json({ error: 'unauthorized' }, 401);
+    } else {
+      response = await handleApi(path, url, req);
+    }
+  }
+
+  requestLog.push({ at: new Date().toISOString(), method: req.method, path: url.pathname, status: response.status });
+  return response;
+}
+
+if (import.meta.main) {
+  const flag = (name: string): string | undefined => {
+    const index = Deno.args.indexOf(name);
+    return index === -1 ? undefined : Deno.args[index + 1];
+  };
+  const port = Number(flag('--port')) || 8380;
+  const scenarioFile = flag('--scenario');
+  if (scenarioFile) {
+    scenario = { ...scenario, ...JSON.parse(await Deno.readTextFile(scenarioFile)) };
+  }
+
+  console.log(`[mock-vaidio] Listening on http://localhost:${port} (user: ${scenario.username})`);
+  Deno.serve({ port }, handler);
+}
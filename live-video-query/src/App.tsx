@@ -1,16 +1,41 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "sonner";
+import { Loader2, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { createQueryClient } from "@/lib/queryClient";
 import LiveVideoQuery from "./pages/apps/LiveVideoQuery";
+import SignIn from "./pages/SignIn";
 
-const queryClient = new QueryClient();
+const queryClient = createQueryClient();
 
 export default function App() {
+  const { user, isLoading, signIn, signOut } = useAuth();
+
   return (
     <QueryClientProvider client={queryClient}>
       <Toaster />
-      <div className="h-screen w-screen bg-background text-foreground">
-        <LiveVideoQuery />
+      <div className="h-screen w-screen bg-background text-foreground flex flex-col">
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin opacity-30" />
+          </div>
+        ) : !user ? (
+          <SignIn onSignIn={signIn} />
+        ) : (
+          <>
+            <div className="px-4 py-1.5 border-b border-border flex items-center justify-end gap-2 shrink-0">
+              <span className="text-xs text-muted-foreground">{user.email}</span>
+              <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={signOut}>
+                <LogOut className="h-3 w-3" /> Sign out
+              </Button>
+            </div>
+            <div className="flex-1 min-h-0">
+              <LiveVideoQuery key={user.id} />
+            </div>
+          </>
+        )}
       </div>
     </QueryClientProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+import type { DetectedObject } from "@/lib/sceneQuery";
+
+interface BoundingBoxOverlayProps {
+  objects: DetectedObject[];
+}
+
+/**
+ * Draws normalized boxes over an image. Place it in a `relative` container
+ * sized exactly to the image.
+ */
+export default function BoundingBoxOverlay({ objects }: BoundingBoxOverlayProps) {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {objects.map((obj, i) => {
+        const [x, y, w, h] = obj.box;
+        return (
+          <div
+            key={i}
+            className="absolute border-2 border-primary rounded-sm"
+            style={{ left: `${x * 100}%`, top: `${y * 100}%`, width: `${w * 100}%`, height: `${h * 100}%` }}
+          >
+            <span className="absolute top-0 left-0 bg-primary text-primary-foreground text-[10px] px-1 rounded-sm whitespace-nowrap">
+              {obj.label}
+              {obj.confidence !== undefined && ` ${Math.round(obj.confidence * 100)}%`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
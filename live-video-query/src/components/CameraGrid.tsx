@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Clock, Loader2, Square, SquareCheck, TriangleAlert, WifiOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCameraSnapshot, type VaidioCamera } from "@/hooks/useVaidioQueries";
+import { describeError } from "@/lib/errors";
+import { cn } from "@/lib/utils";
+
+export type GridSize = 2 | 3 | 4;
+
+// Bigger grids poll each tile less often, keeping the request rate roughly level
+const GRID_INTERVAL_MS: Record<GridSize, number> = { 2: 5000, 3: 10000, 4: 15000 };
+
+const gridColumns: Record<GridSize, string> = { 2: "grid-cols-2", 3: "grid-cols-3", 4: "grid-cols-4" };
+
+// Camera states Vaidio reports for a camera that isn't streaming
+const OFFLINE_STATE = /offline|disconnect|lost|unavailable/i;
+
+type TileStatus =
+  | { kind: "loading" }
+  | { kind: "live" }
+  | { kind: "stale"; label: string }
+  | { kind: "offline"; label: string }
+  | { kind: "error"; label: string };
+
+/**
+ * A frame is stale once no new image has arrived for three polls (and at
+ * least 30 s). An unchanged frame (304) doesn't count as new, so a frozen
+ * camera goes stale too.
+ */
+function tileStatus(
+  camera: VaidioCamera,
+  snapshot: ReturnType<typeof useCameraSnapshot>,
+  now: number,
+  intervalMs: number
+): TileStatus {
+  if (OFFLINE_STATE.test(camera.state)) return { kind: "offline", label: camera.state };
+  if (snapshot.isError) return { kind: "error", label: describeError(snapshot.error) };
+  if (!snapshot.data) return { kind: "loading" };
+  const ageMs = now - Date.parse(snapshot.data.fetchedAt);
+  if (ageMs > Math.max(3 * intervalMs, 30_000)) return { kind: "stale", label: `${Math.round(ageMs / 1000)}s old` };
+  return { kind: "live" };
+}
+
+function StatusBadge({ status }: { status: TileStatus }) {
+  if (status.kind === "live" || status.kind === "loading") return null;
+  const Icon = status.kind === "stale" ? Clock : status.kind === "offline" ? WifiOff : TriangleAlert;
+  return (
+    <div
+      className={cn(
+        "absolute top-1 left-1 max-w-[calc(100%-2rem)] flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] text-white",
+        status.kind === "stale" ? "bg-amber-600/80" : "bg-destructive/80"
+      )}
+      title={status.label}
+    >
+      <Icon className="h-3 w-3 shrink-0" />
+      <span className="truncate">{status.kind === "offline" ? "Offline" : status.label}</span>
+    </div>
+  );
+}
+
+interface GridTileProps {
+  camera: VaidioCamera;
+  serverId?: string;
+  intervalMs: number;
+  now: number;
+  active: boolean;
+  selected: boolean;
+  selectDisabled: boolean;
+  onActivate: () => void;
+  onToggleSelect: () => void;
+}
+
+/** One camera, polled on its own schedule; shares its cache entry with the single view. */
+function GridTile({
+  camera, serverId, intervalMs, now, active, selected, selectDisabled, onActivate, onToggleSelect,
+}: GridTileProps) {
+  const snapshot = useCameraSnapshot(camera.id, { serverId, intervalMs });
+  const status = tileStatus(camera, snapshot, now, intervalMs);
+  const frameUrl = snapshot.data?.frame.objectUrl;
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onActivate}
+      onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && onActivate()}
+      className={cn(
+        "relative aspect-video bg-black rounded-md overflow-hidden cursor-pointer ring-2 ring-offset-1 ring-offset-background",
+        active ? "ring-primary" : selected ? "ring-primary/50" : "ring-transparent hover:ring-border"
+      )}
+      title={`Ask about ${camera.name}`}
+    >
+      {frameUrl ? (
+        <img
+          src={frameUrl}
+          alt={camera.name}
+          className={cn("w-full h-full object-cover", status.kind !== "live" && "opacity-60")}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+          {status.kind === "loading" && <Loader2 className="h-5 w-5 animate-spin opacity-40" />}
+        </div>
+      )}
+      <StatusBadge status={status} />
+      <button
+        className="absolute top-1 right-1 rounded bg-black/60 p-0.5 text-white disabled:opacity-40"
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggleSelect();
+        }}
+        disabled={selectDisabled && !selected}
+        aria-label={selected ? `Remove ${camera.name} from the question` : `Add ${camera.name} to the question`}
+        title={selected ? "Remove from multi-camera question" : "Add to multi-camera question"}
+      >
+        {selected ? <SquareCheck className="h-3.5 w-3.5" /> : <Square className="h-3.5 w-3.5" />}
+      </button>
+      <div className="absolute bottom-1 left-1 max-w-[calc(100%-0.5rem)] truncate rounded bg-black/70 px-1.5 py-0.5 text-[10px] text-white">
+        {camera.name || `Camera ${camera.id}`}
+      </div>
+    </div>
+  );
+}
+
+interface CameraGridProps {
+  cameras: VaidioCamera[];
+  serverId?: string;
+  size: GridSize;
+  /** Camera questions are asked about */
+  activeCameraId: number | null;
+  /** Cameras picked for a multi-camera question */
+  selectedCameraIds: number[];
+  /** No more cameras can be added to the question */
+  selectionFull: boolean;
+  onActivate: (cameraId: number) => void;
+  onToggleSelect: (cameraId: number) => void;
+}
+
+/**
+ * Live grid of a server's cameras, a page at a time. Each tile polls its own
+ * frame and shows whether it is stale, offline or failing; clicking a tile
+ * makes it the active camera, and its checkbox adds it to a multi-camera
+ * question.
+ */
+export default function CameraGrid({
+  cameras, serverId, size, activeCameraId, selectedCameraIds, selectionFull, onActivate, onToggleSelect,
+}: CameraGridProps) {
+  const perPage = size * size;
+  const pageCount = Math.max(1, Math.ceil(cameras.length / perPage));
+  const [page, setPage] = useState(0);
+  const intervalMs = GRID_INTERVAL_MS[size];
+
+  // Keep the page in range when the layout or camera list changes
+  useEffect(() => {
+    setPage((p) => Math.min(p, pageCount - 1));
+  }, [pageCount]);
+
+  // Re-evaluate staleness between polls
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = cameras.slice(page * perPage, (page + 1) * perPage);
+
+  return (
+    <div className="space-y-2">
+      <div className={cn("grid gap-2", gridColumns[size])}>
+        {visible.map((camera, index) => (
+          <GridTile
+            key={camera.key}
+            camera={camera}
+            serverId={serverId}
+            // Spread tiles' polls apart instead of firing them together
+            intervalMs={intervalMs + ((index * 397) % 1000)}
+            now={now}
+            active={camera.id === activeCameraId}
+            selected={selectedCameraIds.includes(camera.id)}
+            selectDisabled={selectionFull}
+            onActivate={() => onActivate(camera.id)}
+            onToggleSelect={() => onToggleSelect(camera.id)}
+          />
+        ))}
+      </div>
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page === 0}
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          Page {page + 1} of {pageCount}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= pageCount - 1}
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
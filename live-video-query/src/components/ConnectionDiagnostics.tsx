@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { CheckCircle2, XCircle, Loader2, Stethoscope, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  runConnectionDiagnostics,
+  type ConnectionDiagnostics as DiagnosticsReport,
+  type DiagnosticErrorKind,
+  type DiagnosticStep,
+} from "@/lib/vaidio";
+
+const errorHints: Record<DiagnosticErrorKind, string> = {
+  dns: "The server hostname could not be resolved from the cloud backend.",
+  tls: "The server's TLS certificate isn't trusted (e.g. self-signed). Use a trusted certificate or plain HTTP.",
+  timeout: "The server did not answer in time. Check firewall/port forwarding.",
+  refused: "The connection was refused. Check the port and that Vaidio is running.",
+  http: "The server answered with an unexpected HTTP status.",
+  auth: "The configured username or password was rejected.",
+  unknown: "The request failed for an unknown reason.",
+};
+
+function StepRow({ label, step, extra }: { label: string; step: DiagnosticStep; extra?: string }) {
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      {step.ok ? (
+        <CheckCircle2 className="h-3.5 w-3.5 mt-0.5 shrink-0 text-green-500" />
+      ) : (
+        <XCircle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-destructive" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium truncate">{label}</span>
+          <span className="text-muted-foreground shrink-0">{step.durationMs} ms</span>
+        </div>
+        {step.ok && extra && <p className="text-muted-foreground">{extra}</p>}
+        {!step.ok && (
+          <p className="text-muted-foreground break-words">
+            {step.errorKind ? errorHints[step.errorKind] : step.detail}
+            {step.detail && step.errorKind && step.errorKind !== "auth" && (
+              <span className="block opacity-70">{step.detail}</span>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Step-by-step result of a connection check, with a hint for each failure. */
+export function DiagnosticsReportView({ report }: { report: DiagnosticsReport }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        {report.serverUrl} · {report.totalMs} ms total
+      </p>
+      {report.candidates.map((c) => (
+        <StepRow
+          key={c.baseUrl}
+          label={`Sign in via ${c.baseUrl}${c.fallback ? " (fallback)" : ""}`}
+          step={c.auth}
+        />
+      ))}
+      {report.endpoints ? (
+        <>
+          <StepRow
+            label="/api/ainvrs"
+            step={report.endpoints.ainvrs}
+            extra={report.endpoints.ainvrs.count !== undefined ? `${report.endpoints.ainvrs.count} servers` : undefined}
+          />
+          <StepRow
+            label="/api/modules"
+            step={report.endpoints.modules}
+            extra={report.endpoints.modules.names?.length ? report.endpoints.modules.names.join(", ") : undefined}
+          />
+          <StepRow
+            label="/api/cameras"
+            step={report.endpoints.cameras}
+            extra={report.endpoints.cameras.count !== undefined ? `${report.endpoints.cameras.count} cameras` : undefined}
+          />
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">API checks skipped: no candidate URL could sign in.</p>
+      )}
+    </div>
+  );
+}
+
+interface ConnectionDiagnosticsProps {
+  serverId?: string;
+  onClose: () => void;
+}
+
+/** Panel that runs vaidio-proxy's connection diagnostics and explains each step. */
+export default function ConnectionDiagnostics({ serverId, onClose }: ConnectionDiagnosticsProps) {
+  const [report, setReport] = useState<DiagnosticsReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runTest = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      setReport(await runConnectionDiagnostics(serverId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Diagnostics failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-border bg-card px-4 py-3 space-y-3 shrink-0">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Stethoscope className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-sm font-semibold">Connection diagnostics</h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="secondary" className="h-7 text-xs" onClick={runTest} disabled={isRunning}>
+            {isRunning && <Loader2 className="h-3 w-3 animate-spin" />}
+            Test connection
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {report && <DiagnosticsReportView report={report} />}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, type ChangeEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Loader2, Pencil, Plus, Server, Star, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DiagnosticsReportView } from "@/components/ConnectionDiagnostics";
+import { vaidioKeys } from "@/hooks/useVaidioQueries";
+import { describeError } from "@/lib/errors";
+import {
+  listManagedServers, saveServer, setDefaultServer, setServerActive, testServer,
+  type ManagedServer, type ServerTestResult,
+} from "@/lib/serverAdmin";
+import type { ConnectionDiagnostics } from "@/lib/vaidio";
+
+/** Add or edit a server; credentials are tested live before they are saved. */
+function ServerForm({
+  server,
+  onSaved,
+  onCancel,
+}: {
+  server: ManagedServer | null;
+  onSaved: (servers: ManagedServer[]) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(server?.name ?? "");
+  const [url, setUrl] = useState(server?.url ?? "");
+  const [username, setUsername] = useState(server?.username ?? "");
+  // Write-only: never prefilled, and left out to keep the stored one
+  const [password, setPassword] = useState("");
+  const [result, setResult] = useState<ServerTestResult | null>(null);
+
+  const input = () => ({
+    ...(server ? { id: server.id } : {}),
+    name: name.trim(),
+    url: url.trim(),
+    username: username.trim(),
+    ...(password ? { password } : {}),
+  });
+
+  const test = useMutation({
+    mutationFn: testServer,
+    onSuccess: setResult,
+    onError: (error) => toast.error(describeError(error)),
+  });
+
+  const save = useMutation({
+    mutationFn: saveServer,
+    onSuccess: (servers) => {
+      toast.success(`${name.trim()} saved`);
+      onSaved(servers);
+    },
+    onError: (error) => {
+      // A failed test comes back with its report; show it like a manual test
+      const report = error.details?.report as ConnectionDiagnostics | undefined;
+      if (report) setResult({ ok: false, error: error.message, report });
+      else toast.error(describeError(error));
+    },
+  });
+
+  const isBusy = test.isPending || save.isPending;
+  // The stored password only goes to the host and user it was saved for
+  const canKeepPassword = !!server?.hasPassword && url.trim() === server.url && username.trim() === server.username;
+  const canSubmit = !!(name.trim() && url.trim() && username.trim() && (password || canKeepPassword)) && !isBusy;
+
+  // Any change invalidates the last result
+  const edit = (set: (value: string) => void) => (e: ChangeEvent<HTMLInputElement>) => {
+    set(e.target.value);
+    setResult(null);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <Input value={name} onChange={edit(setName)} placeholder="Name (e.g. Warehouse NVR)" className="h-7 text-xs" />
+      <Input value={url} onChange={edit(setUrl)} placeholder="https://vaidio.example.com" className="h-7 text-xs" />
+      <div className="flex gap-1.5">
+        <Input
+          value={username}
+          onChange={edit(setUsername)}
+          placeholder="Username"
+          autoComplete="off"
+          className="h-7 text-xs"
+        />
+        <Input
+          type="password"
+          value={password}
+          onChange={edit(setPassword)}
+          placeholder={canKeepPassword ? "Unchanged" : "Password"}
+          autoComplete="new-password"
+          className="h-7 text-xs"
+        />
+      </div>
+
+      {result && (
+        <div className="space-y-2 rounded-md border border-border p-2">
+          <p className="flex items-center gap-1.5 text-xs font-medium">
+            {result.ok ? (
+              <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
+            ) : (
+              <XCircle className="h-3.5 w-3.5 text-destructive" />
+            )}
+            {result.ok
+              ? `Signed in · ${result.report.endpoints?.cameras.count ?? 0} cameras`
+              : result.error ?? "Test failed"}
+          </p>
+          <DiagnosticsReportView report={result.report} />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-1.5">
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onCancel} disabled={save.isPending}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-7 text-xs"
+          onClick={() => test.mutate(input())}
+          disabled={!canSubmit}
+        >
+          {test.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+          Test
+        </Button>
+        <Button size="sm" className="h-7 text-xs" onClick={() => save.mutate(input())} disabled={!canSubmit}>
+          {save.isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+          {server ? "Test and save" : "Test and add"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin list of Vaidio servers: add, edit, activate or deactivate them and
+ * pick the default. Only shown to users with a global admin grant.
+ */
+export default function ServerAdminPanel() {
+  const queryClient = useQueryClient();
+  const servers = useQuery({ queryKey: vaidioKeys.managedServers(), queryFn: listManagedServers });
+  // A server id, "new", or null when no form is open
+  const [editing, setEditing] = useState<string | null>(null);
+
+  // Show the new list, refresh the server selector and drop data from the changed server
+  const applyServers = (list: ManagedServer[], changedId?: string) => {
+    queryClient.setQueryData(vaidioKeys.managedServers(), list);
+    queryClient.invalidateQueries({ queryKey: vaidioKeys.servers(), exact: true });
+    if (changedId) queryClient.invalidateQueries({ queryKey: vaidioKeys.all(changedId) });
+  };
+
+  const update = useMutation({
+    mutationFn: ({ id, change }: { id: string; change: "default" | "activate" | "deactivate" }) =>
+      change === "default" ? setDefaultServer(id) : setServerActive(id, change === "activate"),
+    onSuccess: (list, { id }) => applyServers(list, id),
+    onError: (error) => toast.error(describeError(error)),
+  });
+
+  const closeForm = (list?: ManagedServer[]) => {
+    if (list) applyServers(list, editing !== "new" ? editing ?? undefined : undefined);
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs font-semibold text-muted-foreground">Vaidio servers</h3>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-7 text-xs"
+          onClick={() => setEditing("new")}
+          disabled={editing !== null}
+        >
+          <Plus className="h-3 w-3" />
+          Add server
+        </Button>
+      </div>
+
+      {editing === "new" && <ServerForm server={null} onSaved={closeForm} onCancel={() => closeForm()} />}
+
+      {servers.isPending ? (
+        <Loader2 className="h-4 w-4 animate-spin mx-auto text-muted-foreground" />
+      ) : servers.isError ? (
+        <p className="text-xs text-destructive">{describeError(servers.error)}</p>
+      ) : servers.data.length === 0 ? (
+        <div className="text-center text-muted-foreground py-8">
+          <Server className="h-10 w-10 mx-auto mb-3 opacity-20" />
+          <p className="text-sm">No servers yet</p>
+          <p className="text-xs mt-1">Requests use the VAIDIO_URL server until one is added.</p>
+        </div>
+      ) : (
+        servers.data.map((server) => (
+          <div key={server.id} className="rounded-md border border-border p-2 space-y-2">
+            <div className="flex items-start gap-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">
+                  {server.name || server.url}
+                  {server.isDefault && <span className="ml-1.5 text-xs font-normal text-primary">Default</span>}
+                  {!server.isActive && <span className="ml-1.5 text-xs font-normal text-muted-foreground">Inactive</span>}
+                </p>
+                <p className="text-xs text-muted-foreground truncate" title={server.url}>
+                  {server.username} · {server.url}
+                  {!server.hasPassword && " · no password"}
+                </p>
+              </div>
+              {server.isActive && !server.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  title="Make default"
+                  onClick={() => update.mutate({ id: server.id, change: "default" })}
+                  disabled={update.isPending}
+                >
+                  <Star className="h-3 w-3" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                title="Edit"
+                onClick={() => setEditing(server.id)}
+                disabled={editing !== null}
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+              {!server.isDefault && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs shrink-0"
+                  onClick={() => update.mutate({ id: server.id, change: server.isActive ? "deactivate" : "activate" })}
+                  disabled={update.isPending}
+                >
+                  {server.isActive ? "Deactivate" : "Activate"}
+                </Button>
+              )}
+            </div>
+            {editing === server.id && <ServerForm server={server} onSaved={closeForm} onCancel={() => closeForm()} />}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Check, History, Pencil, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SceneSession } from "@/lib/sessions";
+
+interface SessionListProps {
+  sessions: SceneSession[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function SessionRow({
+  session, active, onOpen, onRename, onDelete,
+}: { session: SceneSession; active: boolean } & Omit<SessionListProps, "sessions" | "activeId">) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(session.title);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const save = () => {
+    setEditing(false);
+    if (title.trim() && title !== session.title) onRename(session.id, title);
+    else setTitle(session.title);
+  };
+
+  if (editing) {
+    return (
+      <form
+        className="flex items-center gap-1 px-2 py-1.5"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+      >
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && (setTitle(session.title), setEditing(false))}
+          className="h-7 text-xs"
+          autoFocus
+        />
+        <Button type="submit" variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="Save">
+          <Check className="h-3 w-3" />
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <div
+      className={`group flex items-center gap-2 px-2 py-1.5 rounded-md text-xs ${
+        active ? "bg-secondary" : "hover:bg-secondary/60"
+      }`}
+    >
+      <button type="button" className="min-w-0 flex-1 text-left" onClick={() => onOpen(session.id)}>
+        <p className="truncate font-medium">{session.title}</p>
+        <p className="text-muted-foreground">{session.updatedAt.toLocaleString()}</p>
+      </button>
+      {confirmDelete ? (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-destructive"
+            onClick={() => onDelete(session.id)}
+          >
+            Delete
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setConfirmDelete(false)} title="Cancel">
+            <X className="h-3 w-3" />
+          </Button>
+        </>
+      ) : (
+        <div className="flex opacity-0 group-hover:opacity-100">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(true)} title="Rename">
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setConfirmDelete(true)} title="Delete">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Saved investigations, most recently active first. */
+export default function SessionList({ sessions, activeId, ...handlers }: SessionListProps) {
+  if (sessions.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground py-12">
+        <History className="h-10 w-10 mx-auto mb-3 opacity-20" />
+        <p className="text-sm">No saved sessions yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {sessions.map((session) => (
+        <SessionRow key={session.id} session={session} active={session.id === activeId} {...handlers} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useState } from "react";
+import { Gauge, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  deleteQuota, getUsageBreakdown, isUsageAdmin, listQuotas, setQuota,
+  type Quota, type QuotaPeriod, type UsageRow,
+} from "@/lib/usage";
+import { cameraKey } from "@/lib/vaidio";
+
+type Range = "today" | "month" | "30d";
+
+const ranges: Array<{ value: Range; label: string }> = [
+  { value: "today", label: "Today" },
+  { value: "month", label: "This month" },
+  { value: "30d", label: "Last 30 days" },
+];
+
+// Quotas reset on UTC day and month boundaries, so ranges use UTC too
+function rangeStart(range: Range): Date {
+  const now = new Date();
+  switch (range) {
+    case "today": return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    case "month": return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    case "30d": return new Date(now.getTime() - 30 * 86_400_000);
+  }
+}
+
+interface Totals {
+  key: string;
+  label: string;
+  queries: number;
+  tokens: number;
+  images: number;
+}
+
+function groupBy(rows: UsageRow[], keyOf: (row: UsageRow) => string, labelOf: (row: UsageRow) => string): Totals[] {
+  const groups = new Map<string, Totals>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key) ?? { key, label: labelOf(row), queries: 0, tokens: 0, images: 0 };
+    group.queries += row.queries;
+    group.tokens += row.promptTokens + row.completionTokens;
+    group.images += row.images;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.tokens - a.tokens || b.queries - a.queries);
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Totals[] }) {
+  if (rows.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <h3 className="text-xs font-semibold text-muted-foreground">{title}</h3>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal py-0.5"></th>
+            <th className="text-right font-normal">Queries</th>
+            <th className="text-right font-normal">Tokens</th>
+            <th className="text-right font-normal">Images</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-t border-border">
+              <td className="py-1 pr-2 truncate max-w-[160px]" title={row.label}>{row.label}</td>
+              <td className="text-right tabular-nums">{row.queries.toLocaleString()}</td>
+              <td className="text-right tabular-nums">{row.tokens.toLocaleString()}</td>
+              <td className="text-right tabular-nums">{row.images.toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function QuotaEditor({ onSaved }: { onSaved: () => void }) {
+  const [targetType, setTargetType] = useState<"user" | "team">("user");
+  const [target, setTarget] = useState("");
+  const [period, setPeriod] = useState<QuotaPeriod>("day");
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [queryLimit, setQueryLimit] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const parseLimit = (value: string) => (value.trim() ? Math.max(1, Math.floor(Number(value))) : null);
+  const canSave = target.trim() && (tokenLimit.trim() || queryLimit.trim()) && !saving;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await setQuota(
+        targetType === "user" ? { userEmail: target.trim() } : { teamName: target.trim() },
+        period,
+        { tokenLimit: parseLimit(tokenLimit), queryLimit: parseLimit(queryLimit) },
+      );
+      setTarget("");
+      setTokenLimit("");
+      setQueryLimit("");
+      onSaved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save quota");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-1.5">
+        <Select value={targetType} onValueChange={(v) => setTargetType(v as "user" | "team")}>
+          <SelectTrigger className="w-[80px] bg-secondary h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="user" className="text-xs">User</SelectItem>
+            <SelectItem value="team" className="text-xs">Team</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          placeholder={targetType === "user" ? "Email" : "Team name"}
+          className="h-7 text-xs"
+        />
+      </div>
+      <div className="flex gap-1.5">
+        <Select value={period} onValueChange={(v) => setPeriod(v as QuotaPeriod)}>
+          <SelectTrigger className="w-[80px] bg-secondary h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day" className="text-xs">Daily</SelectItem>
+            <SelectItem value="month" className="text-xs">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={1}
+          value={tokenLimit}
+          onChange={(e) => setTokenLimit(e.target.value)}
+          placeholder="Tokens"
+          className="h-7 text-xs"
+        />
+        <Input
+          type="number"
+          min={1}
+          value={queryLimit}
+          onChange={(e) => setQueryLimit(e.target.value)}
+          placeholder="Queries"
+          className="h-7 text-xs"
+        />
+        <Button size="sm" className="h-7 text-xs" onClick={save} disabled={!canSave}>
+          {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : "Set"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Query usage by user, camera and model. Admins see everyone's usage and can
+ * set daily or monthly quotas; other users see their own.
+ */
+/** `cameraNames` is keyed by `cameraKey`, since camera ids repeat across servers. */
+export default function UsagePanel({ cameraNames }: { cameraNames: Map<string, string> }) {
+  const [range, setRange] = useState<Range>("today");
+  const [rows, setRows] = useState<UsageRow[] | null>(null);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [quotas, setQuotas] = useState<Quota[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRows(null);
+    getUsageBreakdown(rangeStart(range))
+      .then((result) => !cancelled && setRows(result))
+      .catch((error) => {
+        console.error("Failed to load usage:", error);
+        if (!cancelled) setRows([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const refreshQuotas = () => {
+    listQuotas()
+      .then(setQuotas)
+      .catch((error) => console.error("Failed to load quotas:", error));
+  };
+
+  useEffect(() => {
+    isUsageAdmin()
+      .then((admin) => {
+        setIsAdmin(admin);
+        if (admin) refreshQuotas();
+      })
+      .catch((error) => console.error("Failed to check admin access:", error));
+  }, []);
+
+  const groups = useMemo(() => {
+    if (!rows) return null;
+    return {
+      byUser: groupBy(rows, (r) => r.userId, (r) => r.userEmail ?? r.userId),
+      byCamera: groupBy(
+        rows,
+        (r) => (r.cameraId === null ? "multi" : cameraKey(r.cameraId, r.serverId)),
+        (r) => (r.cameraId === null
+          ? "Multi-camera"
+          : cameraNames.get(cameraKey(r.cameraId, r.serverId)) ?? `Camera ${r.cameraId}`),
+      ),
+      byModel: groupBy(rows, (r) => r.model, (r) => r.model),
+      total: groupBy(rows, () => "total", () => "Total")[0],
+    };
+  }, [rows, cameraNames]);
+
+  const removeQuota = async (id: string) => {
+    try {
+      await deleteQuota(id);
+      setQuotas((prev) => prev.filter((q) => q.id !== id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete quota");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Select value={range} onValueChange={(v) => setRange(v as Range)}>
+          <SelectTrigger className="w-[140px] bg-secondary h-7 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ranges.map((r) => (
+              <SelectItem key={r.value} value={r.value} className="text-xs">
+                {r.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {groups?.total && (
+          <span className="text-xs text-muted-foreground">
+            {groups.total.queries.toLocaleString()} queries · {groups.total.tokens.toLocaleString()} tokens
+          </span>
+        )}
+      </div>
+
+      {!groups ? (
+        <Loader2 className="h-4 w-4 animate-spin mx-auto text-muted-foreground" />
+      ) : groups.total ? (
+        <>
+          {isAdmin && <UsageTable title="By user" rows={groups.byUser} />}
+          <UsageTable title="By camera" rows={groups.byCamera} />
+          <UsageTable title="By model" rows={groups.byModel} />
+        </>
+      ) : (
+        <div className="text-center text-muted-foreground py-8">
+          <Gauge className="h-10 w-10 mx-auto mb-3 opacity-20" />
+          <p className="text-sm">No queries in this period</p>
+        </div>
+      )}
+
+      {isAdmin && (
+        <div className="space-y-2 border-t border-border pt-3">
+          <h3 className="text-xs font-semibold text-muted-foreground">Quotas</h3>
+          {quotas.map((quota) => (
+            <div key={quota.id} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 truncate" title={quota.userEmail ?? quota.teamName ?? ""}>
+                {quota.userEmail ?? `Team ${quota.teamName}`}
+              </span>
+              <span className="text-muted-foreground shrink-0">
+                {quota.period === "day" ? "Daily" : "Monthly"}
+                {quota.tokenLimit !== null && ` · ${quota.tokenLimit.toLocaleString()} tokens`}
+                {quota.queryLimit !== null && ` · ${quota.queryLimit.toLocaleString()} queries`}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => removeQuota(quota.id)}
+                title="Remove quota"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <QuotaEditor onSaved={refreshQuotas} />
+        </div>
+      )}
+    </div>
+  );
+}
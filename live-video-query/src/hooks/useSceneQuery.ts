@@ -1,164 +1,693 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
+import { getFunctionHeaders, getFunctionUrl } from "@/lib/edgeFunctions";
+import { VaidioError, describeError } from "@/lib/errors";
+import {
+  chunkContent, getAnalysisProfiles, getSceneModels, readSceneEvents, readSseData,
+  type AgentStep, type AnalysisProfile, type SceneContextOptions, type StructuredAnswer,
+} from "@/lib/sceneQuery";
+import * as sessionStore from "@/lib/sessions";
+import type { MessageInput, SavedMessage, SceneSession } from "@/lib/sessions";
+import type { TimedFrame } from "@/lib/vaidio";
+
+/** How a single-camera question is asked; kept on it to retry or regenerate its answer. */
+export interface SceneQueryOptions {
+  structured?: boolean;
+  context?: SceneContextOptions;
+  agent?: boolean;
+}
+
+/** One camera's section of a multi-camera answer. */
+export interface CameraAnswer {
+  cameraId: number;
+  name: string;
+  imageBase64?: string;
+  content: string;
+  error?: string;
+}
 
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
   imageBase64?: string;
+  /** Frame sequence sent with a temporal question, oldest first */
+  frames?: TimedFrame[];
+  /** Frames from earlier in the conversation sent with `imageBase64` for comparison */
+  earlierFrames?: TimedFrame[];
+  /** Frames of a multi-camera question, kept in memory to retry it */
+  cameraFrames?: CameraFrame[];
+  options?: SceneQueryOptions;
+  /** Per-camera answers; `content` holds the combined summary */
+  cameraAnswers?: CameraAnswer[];
+  /** Validated answer in structured mode; `content` holds its text answer */
+  structured?: StructuredAnswer;
+  /** Tool calls made in agent mode, in order */
+  steps?: AgentStep[];
+  /** Camera the question was asked about */
+  cameraId?: number;
+  /** Server of the camera(s) asked about; omitted for the env-configured server */
+  serverId?: string;
+  /** Snapshots of a saved message were removed by the retention policy */
+  snapshotsPurged?: boolean;
+  /** A question that got no answer (it failed or was cancelled first) */
+  failed?: boolean;
+  /** An answer cut short by cancelling or an error; `content` holds what arrived */
+  interrupted?: boolean;
   timestamp: Date;
 }
 
-/**
- * Build the query-scene edge function URL from the Supabase client config.
- * This avoids hardcoding env vars and keeps the dependency on the shared client.
- */
-function getQuerySceneUrl(): string {
-  // supabaseUrl is a public property on the Supabase client
-  const supabaseUrl = (supabase as any).supabaseUrl as string;
-  return `${supabaseUrl}/functions/v1/query-scene`;
+/** A camera's current frame, for multi-camera questions */
+export interface CameraFrame {
+  cameraId: number;
+  name: string;
+  imageBase64: string;
 }
 
-function getAnonKey(): string {
-  return (supabase as any).supabaseKey as string;
+async function postQuery(payload: Record<string, unknown>, signal: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+  const response = await fetch(getFunctionUrl("query-scene"), {
+    method: "POST",
+    headers: await getFunctionHeaders(),
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await VaidioError.fromResponse(response);
+  }
+
+  if (!response.body) {
+    throw new VaidioError({ error: "No response body", code: "upstream_http_error", retryable: true });
+  }
+
+  return response.body;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+/** Convert a message for saving; only data URLs (new captures) are uploaded. */
+function toMessageInput(message: ChatMessage, model: string | null, profileId: string | null): MessageInput {
+  const snapshots = [
+    ...(message.imageBase64 ? [{ dataUrl: message.imageBase64, cameraId: message.cameraId }] : []),
+    ...(message.frames ?? []).map((f) => ({ dataUrl: f.imageBase64, capturedAt: f.capturedAt })),
+    ...(message.earlierFrames ?? []).map((f) => ({ dataUrl: f.imageBase64, capturedAt: f.capturedAt, earlier: true })),
+    ...(message.cameraAnswers ?? [])
+      .filter((a) => a.imageBase64)
+      .map((a) => ({ dataUrl: a.imageBase64!, cameraId: a.cameraId })),
+  ].filter((s) => s.dataUrl.startsWith("data:"));
+
+  return {
+    role: message.role,
+    content: message.content,
+    cameraId: message.cameraId,
+    serverId: message.serverId,
+    model,
+    profileId,
+    snapshots,
+    structured: message.structured,
+    cameraAnswers: message.cameraAnswers?.map(({ cameraId, name, content, error }) => ({ cameraId, name, content, error })),
+    steps: message.steps,
+    interrupted: message.interrupted,
+    timestamp: message.timestamp,
+  };
 }
 
-export function useSceneQuery() {
+/** Rebuild a chat message from its saved row; snapshots come back as signed URLs. */
+function fromSavedMessage(saved: SavedMessage): ChatMessage {
+  const timed = saved.snapshots.filter((s) => s.capturedAt && !s.earlier);
+  const earlier = saved.snapshots.filter((s) => s.earlier);
+  const single = saved.cameraAnswers ? undefined : saved.snapshots.find((s) => !s.capturedAt);
+  return {
+    role: saved.role,
+    content: saved.content,
+    ...(timed.length > 0 ? { frames: timed.map((s) => ({ imageBase64: s.url, capturedAt: s.capturedAt! })) } : {}),
+    ...(single ? { imageBase64: single.url } : {}),
+    ...(earlier.length > 0
+      ? { earlierFrames: earlier.map((s) => ({ imageBase64: s.url, capturedAt: s.capturedAt! })) }
+      : {}),
+    ...(saved.cameraAnswers
+      ? {
+          cameraAnswers: saved.cameraAnswers.map((a) => ({
+            ...a,
+            imageBase64: saved.snapshots.find((s) => s.cameraId === a.cameraId)?.url,
+          })),
+        }
+      : {}),
+    ...(saved.structured ? { structured: saved.structured } : {}),
+    ...(saved.steps ? { steps: saved.steps } : {}),
+    ...(saved.cameraId !== null ? { cameraId: saved.cameraId } : {}),
+    ...(saved.serverId !== null ? { serverId: saved.serverId } : {}),
+    ...(saved.snapshotsPurged ? { snapshotsPurged: true } : {}),
+    ...(saved.interrupted ? { interrupted: true } : {}),
+    timestamp: saved.createdAt,
+  };
+}
+
+/** The most recent frame of a camera a question in the conversation was asked about. */
+export function latestFrame(messages: ChatMessage[], cameraId: number, serverId?: string): TimedFrame | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "user" || message.cameraId !== cameraId || message.serverId !== serverId) continue;
+    if (message.frames?.length) return message.frames[message.frames.length - 1];
+    if (message.imageBase64) return { imageBase64: message.imageBase64, capturedAt: message.timestamp.toISOString() };
+  }
+  return null;
+}
+
+/** Text history sent with a question: the last 6 messages, without unanswered questions */
+function toHistory(messages: ChatMessage[]) {
+  return messages
+    .filter((m) => !m.failed)
+    .slice(-6)
+    .map((m) => ({ role: m.role, content: m.content }));
+}
+
+/** A question's images as data URLs; reopened sessions hold signed URLs, which query-scene rejects. */
+async function inlineImages(message: ChatMessage): Promise<Pick<ChatMessage, "imageBase64" | "frames" | "earlierFrames">> {
+  const inline = async (frame: TimedFrame) => ({
+    ...frame,
+    imageBase64: await sessionStore.fetchSnapshotDataUrl(frame.imageBase64),
+  });
+  return {
+    imageBase64: message.imageBase64 && await sessionStore.fetchSnapshotDataUrl(message.imageBase64),
+    frames: message.frames && await Promise.all(message.frames.map(inline)),
+    earlierFrames: message.earlierFrames && await Promise.all(message.earlierFrames.map(inline)),
+  };
+}
+
+async function reportQueryError(error: unknown) {
+  console.error("Scene query error:", error);
+  const err = await VaidioError.from(error);
+  const message = err.code === "internal_error" || err.code === "upstream_http_error"
+    ? "Failed to analyze scene"
+    : describeError(err);
+  toast.error(message);
+}
+
+/**
+ * `camera` is the camera being asked about; its assigned analysis profile is
+ * selected whenever it changes.
+ */
+export function useSceneQuery(camera?: { id: number; type?: string; serverId?: string } | null) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isQuerying, setIsQuerying] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [streamingCameraAnswers, setStreamingCameraAnswers] = useState<CameraAnswer[] | null>(null);
+  const [streamingStatus, setStreamingStatus] = useState<string | null>(null);
+  const [streamingSteps, setStreamingSteps] = useState<AgentStep[] | null>(null);
+  const [models, setModels] = useState<string[]>([]);
+  const [model, setModel] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<AnalysisProfile[]>([]);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SceneSession[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // The session being written to, readable before its state update lands
+  const sessionRef = useRef<Promise<string> | null>(null);
+  // Saved row ids, so a regenerated answer can be removed from its session
+  const savedIds = useRef(new WeakMap<ChatMessage, Promise<string>>());
+  const abortRef = useRef<AbortController | null>(null);
 
-  const queryScene = useCallback(
-    async (imageBase64: string, question: string) => {
-      if (!imageBase64 || !question.trim()) return;
+  // Stop a running answer when the page goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-      const userMsg: ChatMessage = {
-        role: "user",
-        content: question,
-        imageBase64,
-        timestamp: new Date(),
-      };
+  // Load the server-approved models; the server default applies until this resolves
+  useEffect(() => {
+    getSceneModels()
+      .then((result) => {
+        setModels(result.models);
+        setModel((current) => current ?? result.defaultModel);
+      })
+      .catch((error) => console.error("Failed to load models:", error));
+  }, []);
 
-      setMessages((prev) => [...prev, userMsg]);
-      setIsQuerying(true);
-      setStreamingContent("");
+  const cameraId = camera?.id;
+  const cameraType = camera?.type;
+  const cameraServerId = camera?.serverId;
+  useEffect(() => {
+    let cancelled = false;
+    getAnalysisProfiles(cameraId, cameraType, cameraServerId)
+      .then((result) => {
+        if (cancelled) return;
+        setProfiles(result.profiles);
+        setProfileId(result.assignedProfileId);
+      })
+      .catch((error) => console.error("Failed to load analysis profiles:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [cameraId, cameraType, cameraServerId]);
 
-      try {
-        // Build history (last 6 messages for context, text only)
-        const history = messages.slice(-6).map((m) => ({
-          role: m.role,
-          content: m.content,
-        }));
-
-        const response = await fetch(getQuerySceneUrl(), {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${getAnonKey()}`,
-          },
-          body: JSON.stringify({ imageBase64, question, history }),
+  const refreshSessions = useCallback(() => {
+    sessionStore.listSessions()
+      .then(setSessions)
+      .catch((error) => console.error("Failed to load sessions:", error));
+  }, []);
+
+  useEffect(refreshSessions, [refreshSessions]);
+
+  /**
+   * Save a message to the current session, starting one (titled after the
+   * question) if needed. Saving never blocks or fails a query.
+   */
+  const persist = useCallback(
+    (message: ChatMessage) => {
+      if (!sessionRef.current) {
+        const title = message.content.trim().slice(0, MAX_TITLE_LENGTH) || "Untitled investigation";
+        sessionRef.current = sessionStore.createSession(title).then((session) => {
+          setSessionId(session.id);
+          refreshSessions();
+          return session.id;
         });
+        // Let the next message retry if the session couldn't be created
+        sessionRef.current.catch(() => {
+          sessionRef.current = null;
+        });
+      }
+      const input = toMessageInput(message, model, profileId);
+      const saved = sessionRef.current.then((id) => sessionStore.saveMessage(id, input));
+      savedIds.current.set(message, saved);
+      saved.catch((error) => {
+        console.error("Failed to save message:", error);
+        toast.warning("This message couldn't be saved to the session", { id: "session-save" });
+      });
+    },
+    [model, profileId, refreshSessions]
+  );
 
-        if (!response.ok) {
-          const err = await response.json().catch(() => ({}));
-          if (response.status === 429) {
-            toast.error("Rate limit exceeded. Please wait a moment.");
-            throw new Error("Rate limited");
-          }
-          if (response.status === 402) {
-            toast.error("Please add credits to continue.");
-            throw new Error("Payment required");
-          }
-          throw new Error(err.error || "Failed to query scene");
-        }
+  const profile = profiles.find((p) => p.id === profileId) ?? null;
 
-        if (!response.body) throw new Error("No response body");
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let textBuffer = "";
-        let fullContent = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          textBuffer += decoder.decode(value, { stream: true });
-
-          let newlineIndex: number;
-          while ((newlineIndex = textBuffer.indexOf("\n")) !== -1) {
-            let line = textBuffer.slice(0, newlineIndex);
-            textBuffer = textBuffer.slice(newlineIndex + 1);
-            if (line.endsWith("\r")) line = line.slice(0, -1);
-            if (line.startsWith(":") || line.trim() === "") continue;
-            if (!line.startsWith("data: ")) continue;
-            const jsonStr = line.slice(6).trim();
-            if (jsonStr === "[DONE]") break;
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                fullContent += content;
-                setStreamingContent(fullContent);
-              }
-            } catch {
-              textBuffer = line + "\n" + textBuffer;
-              break;
-            }
+  // A profile's preferred model becomes the selection, when the server allows it
+  useEffect(() => {
+    if (profile?.model && models.includes(profile.model)) setModel(profile.model);
+  }, [profile?.model, models]);
+
+  const addAnswer = useCallback(
+    (answer: ChatMessage) => {
+      setMessages((prev) => [...prev, answer]);
+      persist(answer);
+    },
+    [persist]
+  );
+
+  /**
+   * Nothing new was kept for `question`: put back `previous`, the answer
+   * being regenerated, or else mark the question failed.
+   */
+  const markUnanswered = useCallback((question: ChatMessage, previous?: ChatMessage) => {
+    setMessages((prev) => {
+      if (!previous) return prev.map((m) => (m === question ? { ...m, failed: true } : m));
+      const index = prev.indexOf(question);
+      return index === -1 ? prev : [...prev.slice(0, index + 1), previous, ...prev.slice(index + 1)];
+    });
+  }, []);
+
+  /** Start a request; its controller is what `cancelQuery` aborts */
+  const begin = useCallback(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsQuerying(true);
+    setStreamingContent("");
+    return controller;
+  }, []);
+
+  const end = useCallback((controller: AbortController) => {
+    if (abortRef.current === controller) abortRef.current = null;
+    setStreamingContent("");
+    setStreamingStatus(null);
+    setStreamingSteps(null);
+    setStreamingCameraAnswers(null);
+    setIsQuerying(false);
+  }, []);
+
+  /**
+   * Answer a single-camera question already in the conversation. If the
+   * answer is cancelled or fails midway, what streamed is kept and marked
+   * interrupted; a question left with no answer at all is marked failed, or
+   * gets `previous` back when regenerating. Resolves to whether an answer
+   * was kept.
+   */
+  const runScene = useCallback(
+    async (
+      question: ChatMessage,
+      history: ChatMessage[],
+      options: SceneQueryOptions = question.options ?? {},
+      previous?: ChatMessage
+    ) => {
+      const { structured = false, context, agent = false } = options;
+      const { cameraId, serverId } = question;
+      const controller = begin();
+      let content = "";
+      let steps: AgentStep[] | undefined;
+      let kept = false;
+      const keepAnswer = (extra: Partial<ChatMessage> = {}) => {
+        kept = true;
+        addAnswer({
+          role: "assistant", content, ...(steps ? { steps } : {}), cameraId, serverId, timestamp: new Date(), ...extra,
+        });
+      };
+
+      try {
+        const request = await inlineImages(question);
+        const body = await postQuery({
+          ...(request.frames ? { frames: request.frames } : { imageBase64: request.imageBase64 }),
+          ...(request.earlierFrames
+            ? { earlierFrames: request.earlierFrames, capturedAt: question.timestamp.toISOString() }
+            : {}),
+          question: question.content,
+          history: toHistory(history),
+          cameraId,
+          serverId,
+          model: model ?? undefined,
+          profileId: profileId ?? undefined,
+          ...(structured ? { format: "structured" } : {}),
+          ...(context && cameraId !== undefined ? { context } : {}),
+          ...(agent ? { agent: true } : {}),
+        }, controller.signal);
+
+        if (structured) {
+          setStreamingStatus("Analyzing");
+          let result: StructuredAnswer | null = null;
+          let streamError: VaidioError | null = null;
+          await readSceneEvents(body, (event) => {
+            if (event.type === "status") setStreamingStatus(event.message);
+            else if (event.type === "structured") result = event.result;
+            else if (event.type === "error") streamError = new VaidioError(event.error);
+          });
+          if (streamError) throw streamError;
+          if (!result) {
+            throw new VaidioError({ error: "No structured answer received", code: "upstream_http_error", retryable: true });
           }
+          const answer: StructuredAnswer = result;
+          content = answer.answer;
+          keepAnswer({ structured: answer });
+          return kept;
         }
 
-        // Flush remaining
-        if (textBuffer.trim()) {
-          for (let raw of textBuffer.split("\n")) {
-            if (!raw) continue;
-            if (raw.endsWith("\r")) raw = raw.slice(0, -1);
-            if (raw.startsWith(":") || raw.trim() === "") continue;
-            if (!raw.startsWith("data: ")) continue;
-            const jsonStr = raw.slice(6).trim();
-            if (jsonStr === "[DONE]") continue;
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                fullContent += content;
-                setStreamingContent(fullContent);
-              }
-            } catch {
-              /* ignore */
+        if (agent) {
+          steps = [];
+          let streamError: VaidioError | null = null;
+          setStreamingSteps(steps);
+          await readSceneEvents(body, (event) => {
+            switch (event.type) {
+              case "delta":
+                content += event.content;
+                setStreamingStatus(null);
+                setStreamingContent(content);
+                break;
+              // What the model said between tool calls; not part of the answer
+              case "status":
+                setStreamingStatus(event.message);
+                break;
+              case "tool_call":
+                steps = [...steps!, { id: event.id, name: event.name, arguments: event.arguments }];
+                setStreamingSteps(steps);
+                break;
+              case "tool_result":
+                steps = steps!.map((s) => (s.id === event.id ? { ...s, result: event.result } : s));
+                setStreamingSteps(steps);
+                break;
+              case "error":
+                streamError = new VaidioError(event.error);
+                break;
             }
-          }
+          });
+          if (streamError) throw streamError;
+          keepAnswer();
+          return kept;
         }
 
-        const assistantMsg: ChatMessage = {
-          role: "assistant",
-          content: fullContent,
-          timestamp: new Date(),
-        };
-        setMessages((prev) => [...prev, assistantMsg]);
-        setStreamingContent("");
+        await readSseData(body, (data) => {
+          const delta = chunkContent(data);
+          if (delta) {
+            content += delta;
+            setStreamingContent(content);
+          }
+        });
+        keepAnswer();
       } catch (error) {
-        console.error("Scene query error:", error);
-        if (error instanceof Error) {
-          if (error.message === "Rate limited" || error.message === "Payment required") {
-            // Already toasted above
-          } else {
-            toast.error("Failed to analyze scene");
+        if (content || steps?.length) keepAnswer({ interrupted: true });
+        else markUnanswered(question, previous);
+        if (!controller.signal.aborted) await reportQueryError(error);
+      } finally {
+        end(controller);
+      }
+      return kept;
+    },
+    [model, profileId, begin, end, addAnswer, markUnanswered]
+  );
+
+  /** Answer a multi-camera question already in the conversation; see `runScene`. */
+  const runCameras = useCallback(
+    async (question: ChatMessage, cameraFrames: CameraFrame[], previous?: ChatMessage) => {
+      const controller = begin();
+      const images = new Map(cameraFrames.map((c) => [c.cameraId, c.imageBase64]));
+      let answers: CameraAnswer[] = [];
+      let summary = "";
+      const update = (cameraId: number, change: (answer: CameraAnswer) => CameraAnswer) => {
+        answers = answers.map((a) => (a.cameraId === cameraId ? change(a) : a));
+        setStreamingCameraAnswers(answers);
+      };
+      let kept = false;
+      const keepAnswer = (extra: Partial<ChatMessage> = {}) => {
+        kept = true;
+        addAnswer({
+          role: "assistant", content: summary, cameraAnswers: answers, serverId: question.serverId, timestamp: new Date(),
+          ...extra,
+        });
+      };
+
+      try {
+        const cameras = await Promise.all(cameraFrames.map(async (c) => ({
+          ...c,
+          imageBase64: await sessionStore.fetchSnapshotDataUrl(c.imageBase64),
+        })));
+        const body = await postQuery({
+          cameras,
+          serverId: question.serverId,
+          question: question.content,
+          model: model ?? undefined,
+          profileId: profileId ?? undefined,
+        }, controller.signal);
+
+        let streamError: VaidioError | null = null;
+        await readSceneEvents(body, (event) => {
+          switch (event.type) {
+            case "camera_start":
+              answers = [...answers, {
+                cameraId: event.cameraId,
+                name: event.name,
+                imageBase64: images.get(event.cameraId),
+                content: "",
+              }];
+              setStreamingCameraAnswers(answers);
+              break;
+            case "camera_delta":
+              update(event.cameraId, (a) => ({ ...a, content: a.content + event.content }));
+              break;
+            case "camera_error":
+              update(event.cameraId, (a) => ({ ...a, error: describeError(new VaidioError(event.error)) }));
+              break;
+            case "summary_delta":
+              summary += event.content;
+              setStreamingContent(summary);
+              break;
+            case "error":
+              streamError = new VaidioError(event.error);
+              break;
           }
-        } else {
-          toast.error("Failed to analyze scene");
-        }
-        setStreamingContent("");
+        });
+        if (streamError) throw streamError;
+        keepAnswer();
+      } catch (error) {
+        // Keep the per-camera answers even when only the summary failed
+        if (answers.some((a) => a.content)) keepAnswer({ interrupted: true });
+        else markUnanswered(question, previous);
+        if (!controller.signal.aborted) await reportQueryError(error);
       } finally {
-        setIsQuerying(false);
+        end(controller);
+      }
+      return kept;
+    },
+    [model, profileId, begin, end, addAnswer, markUnanswered]
+  );
+
+  /**
+   * Ask about a single snapshot (data URL) or a timed frame sequence.
+   * `structured` asks for a validated JSON answer (single snapshots only);
+   * `context` adds Vaidio metadata about the camera to the prompt; `agent`
+   * lets the model call Vaidio tools before answering; `compare` sends the
+   * camera's latest frame from the conversation alongside a new snapshot.
+   * `camera` is the camera on its server the image came from.
+   */
+  const queryScene = useCallback(
+    async (
+      image: string | TimedFrame[],
+      question: string,
+      camera?: { id: number; serverId?: string },
+      { compare = false, ...options }: SceneQueryOptions & { compare?: boolean } = {}
+    ) => {
+      const isSequence = Array.isArray(image);
+      if ((isSequence ? image.length === 0 : !image) || !question.trim()) return;
+
+      let earlierFrames: TimedFrame[] | undefined;
+      if (compare && !isSequence && camera) {
+        const earlier = latestFrame(messages, camera.id, camera.serverId);
+        if (!earlier) {
+          toast.error("Ask about this camera once before comparing");
+          return;
+        }
+        try {
+          // Inline now so the frame is saved with this question too
+          earlierFrames = [{ ...earlier, imageBase64: await sessionStore.fetchSnapshotDataUrl(earlier.imageBase64) }];
+        } catch (error) {
+          console.error("Failed to load earlier frame:", error);
+          toast.error("The earlier frame couldn't be loaded");
+          return;
+        }
+      }
+
+      const userMsg: ChatMessage = {
+        role: "user",
+        content: question,
+        ...(isSequence ? { frames: image } : { imageBase64: image }),
+        ...(earlierFrames ? { earlierFrames } : {}),
+        cameraId: camera?.id,
+        serverId: camera?.serverId,
+        options,
+        timestamp: new Date(),
+      };
+
+      setMessages((prev) => [...prev, userMsg]);
+      persist(userMsg);
+      await runScene(userMsg, messages);
+    },
+    [messages, persist, runScene]
+  );
+
+  /** Ask one question across several cameras of one server: an answer per camera plus a summary */
+  const queryCameras = useCallback(
+    async (cameraFrames: CameraFrame[], question: string, serverId?: string) => {
+      if (cameraFrames.length === 0 || !question.trim()) return;
+
+      const userMsg: ChatMessage = { role: "user", content: question, cameraFrames, serverId, timestamp: new Date() };
+      setMessages((prev) => [...prev, userMsg]);
+      persist(userMsg);
+      await runCameras(userMsg, cameraFrames);
+    },
+    [persist, runCameras]
+  );
+
+  /** Stop the answer being streamed; what arrived so far is kept */
+  const cancelQuery = useCallback(() => abortRef.current?.abort(), []);
+
+  /** Ask a question that got no answer again, with the same frames */
+  const retry = useCallback(
+    async (question: ChatMessage) => {
+      const index = messages.indexOf(question);
+      if (isQuerying || index === -1 || !question.failed) return;
+
+      const retried: ChatMessage = { ...question, failed: undefined };
+      setMessages((prev) => prev.map((m) => (m === question ? retried : m)));
+      if (question.cameraFrames) await runCameras(retried, question.cameraFrames);
+      else await runScene(retried, messages.slice(0, index));
+    },
+    [messages, isQuerying, runScene, runCameras]
+  );
+
+  /**
+   * Replace an answer with a new one to the same question and frames. The
+   * saved answer is only deleted once a replacement has been kept; if none
+   * arrives, the original comes back.
+   */
+  const regenerate = useCallback(
+    async (answer: ChatMessage) => {
+      const index = messages.indexOf(answer);
+      if (isQuerying || index === -1 || answer.role !== "assistant") return;
+      const questionIndex = messages.map((m) => m.role).lastIndexOf("user", index);
+      if (questionIndex === -1) return;
+      const question = messages[questionIndex];
+
+      setMessages((prev) => prev.filter((m) => m !== answer));
+
+      let replaced: boolean;
+      if (answer.cameraAnswers) {
+        const frames = question.cameraFrames ?? answer.cameraAnswers
+          .filter((a) => a.imageBase64)
+          .map((a) => ({ cameraId: a.cameraId, name: a.name, imageBase64: a.imageBase64! }));
+        replaced = await runCameras(question, frames, answer);
+      } else {
+        // Reopened questions don't record how they were asked; the answer shows it
+        const options = question.options ?? { structured: !!answer.structured, agent: !!answer.steps };
+        replaced = await runScene(question, messages.slice(0, questionIndex), options, answer);
+      }
+
+      if (replaced) {
+        savedIds.current.get(answer)
+          ?.then(sessionStore.deleteMessage)
+          .catch((error) => console.error("Failed to delete regenerated answer:", error));
       }
     },
-    [messages]
+    [messages, isQuerying, runScene, runCameras]
   );
 
+  /** Start a new investigation; the current one stays in the session list */
   const clearHistory = useCallback(() => {
+    abortRef.current?.abort();
+    sessionRef.current = null;
+    setSessionId(null);
     setMessages([]);
     setStreamingContent("");
   }, []);
 
-  return { messages, isQuerying, streamingContent, queryScene, clearHistory };
+  const openSession = useCallback(async (id: string) => {
+    abortRef.current?.abort();
+    try {
+      const saved = await sessionStore.loadMessages(id);
+      sessionRef.current = Promise.resolve(id);
+      setSessionId(id);
+      const restored = saved.map((s) => {
+        const message = fromSavedMessage(s);
+        savedIds.current.set(message, Promise.resolve(s.id));
+        return message;
+      });
+      setMessages(restored);
+    } catch (error) {
+      console.error("Failed to open session:", error);
+      toast.error("Failed to open session");
+    }
+  }, []);
+
+  const renameSession = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim().slice(0, MAX_TITLE_LENGTH);
+    if (!trimmed) return;
+    try {
+      await sessionStore.renameSession(id, trimmed);
+      setSessions((prev) => prev.map((s) => (s.id === id ? { ...s, title: trimmed } : s)));
+    } catch (error) {
+      console.error("Failed to rename session:", error);
+      toast.error("Failed to rename session");
+    }
+  }, []);
+
+  const deleteSession = useCallback(
+    async (id: string) => {
+      try {
+        await sessionStore.deleteSession(id);
+        setSessions((prev) => prev.filter((s) => s.id !== id));
+        if (id === sessionId) clearHistory();
+      } catch (error) {
+        console.error("Failed to delete session:", error);
+        toast.error("Failed to delete session");
+      }
+    },
+    [sessionId, clearHistory]
+  );
+
+  return {
+    messages, isQuerying, streamingContent, streamingCameraAnswers, streamingStatus, streamingSteps,
+    queryScene, queryCameras, cancelQuery, retry, regenerate,
+    clearHistory,
+    models, model, setModel,
+    profiles, profile, setProfileId,
+    sessions, sessionId, openSession, renameSession, deleteSession,
+  };
 }
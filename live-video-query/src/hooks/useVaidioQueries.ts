@@ -0,0 +1,183 @@
+import { keepPreviousData, queryOptions, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import {
+  cameraKey, getAlerts, getCameraSnapshotBinary, getCameras, getCounting, getSystemInfo, listServers, revokeSnapshotFrame,
+  searchScenes, type SnapshotFrame,
+} from "@/lib/vaidio";
+import { isUsageAdmin } from "@/lib/usage";
+
+/**
+ * Vaidio data as shared queries. Keys are scoped by server, so panels showing
+ * the same server's data share one cache entry and one request.
+ */
+
+// How often the live view refreshes; polling pauses while the tab is hidden
+export const SNAPSHOT_INTERVAL_MS = 5000;
+
+export interface VaidioCamera {
+  id: number;
+  /** Server the camera is on; null for the default server */
+  serverId: string | null;
+  /** Unique across servers, unlike `id`; see `cameraKey` */
+  key: string;
+  name: string;
+  status: string;
+  state: string;
+  type: string;
+}
+
+/** The latest frame of a camera, kept until the camera sends a newer one. */
+export interface CameraSnapshot {
+  cameraId: number;
+  serverId: string | null;
+  frame: SnapshotFrame;
+  fetchedAt: string;
+}
+
+export interface TimeRange {
+  start: string;
+  end: string;
+  cameraIds?: number[];
+}
+
+export const vaidioKeys = {
+  servers: () => ["vaidio-servers"] as const,
+  /** Every server with its connection details, for admins */
+  managedServers: () => [...vaidioKeys.servers(), "managed"] as const,
+  isAdmin: () => ["vaidio-admin"] as const,
+  all: (serverId?: string | null) => ["vaidio", serverId ?? "default"] as const,
+  cameras: (serverId?: string | null) => [...vaidioKeys.all(serverId), "cameras"] as const,
+  snapshot: (cameraId: number, serverId?: string | null) => [...vaidioKeys.all(serverId), "snapshot", cameraId] as const,
+  alerts: (range: TimeRange, serverId?: string | null) => [...vaidioKeys.all(serverId), "alerts", range] as const,
+  counting: (range: TimeRange, serverId?: string | null) => [...vaidioKeys.all(serverId), "counting", range] as const,
+  scenes: (search: { query: string; start: string; end: string }, serverId?: string | null) =>
+    [...vaidioKeys.all(serverId), "scenes", search] as const,
+  systemInfo: (serverId?: string | null) => [...vaidioKeys.all(serverId), "system"] as const,
+};
+
+interface QueryScope {
+  serverId?: string;
+  enabled?: boolean;
+}
+
+/** Servers the user may pick from, default first. */
+export function useServers() {
+  return useQuery({
+    queryKey: vaidioKeys.servers(),
+    queryFn: listServers,
+    staleTime: 5 * 60_000,
+  });
+}
+
+/** Whether the user may manage servers (a global admin grant). */
+export function useIsVaidioAdmin() {
+  return useQuery({
+    queryKey: vaidioKeys.isAdmin(),
+    queryFn: isUsageAdmin,
+    staleTime: Infinity,
+  });
+}
+
+/** Cameras that are processing video, the ones that can be asked about. */
+export function useCameras({ serverId, enabled = true }: QueryScope = {}) {
+  return useQuery({
+    queryKey: vaidioKeys.cameras(serverId),
+    queryFn: async (): Promise<VaidioCamera[]> => {
+      const cameras = await getCameras({ statuses: ["Processing"], serverId });
+      return cameras.map((c) => ({
+        id: c.cameraId,
+        serverId: serverId ?? null,
+        key: cameraKey(c.cameraId, serverId),
+        name: c.name,
+        status: c.status ?? "",
+        state: c.cscState ?? "",
+        type: c.cameraType,
+      }));
+    },
+    staleTime: 60_000,
+    enabled,
+  });
+}
+
+/**
+ * Query options for a camera's live frame. Each fetch revalidates against the
+ * cached frame, so an unchanged frame (304) keeps the same data and object URL.
+ */
+export function snapshotQuery(queryClient: QueryClient, cameraId: number, serverId?: string) {
+  const queryKey = vaidioKeys.snapshot(cameraId, serverId);
+  return queryOptions({
+    queryKey,
+    queryFn: async (): Promise<CameraSnapshot> => {
+      const previous = queryClient.getQueryData<CameraSnapshot>(queryKey);
+      const frame = await getCameraSnapshotBinary(cameraId, previous?.frame, serverId);
+      if (!frame) return previous!;
+      // Displayed images keep their pixels; the blob stays usable for captures
+      revokeSnapshotFrame(previous?.frame);
+      return { cameraId, serverId: serverId ?? null, frame, fetchedAt: new Date().toISOString() };
+    },
+    staleTime: 0,
+    // A frame is soon replaced by the next poll; don't hold it back with retries
+    retry: 1,
+    structuralSharing: false,
+    meta: { release: (data) => revokeSnapshotFrame((data as CameraSnapshot | undefined)?.frame) },
+  });
+}
+
+/**
+ * A camera's live frame, polled every `intervalMs` while the tab is visible.
+ * The previous camera's frame is shown until a newly selected one arrives.
+ */
+export function useCameraSnapshot(
+  cameraId: number | null,
+  { serverId, enabled = true, intervalMs = SNAPSHOT_INTERVAL_MS }: QueryScope & { intervalMs?: number } = {}
+) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    ...snapshotQuery(queryClient, cameraId ?? 0, serverId),
+    enabled: enabled && cameraId !== null,
+    refetchInterval: intervalMs,
+    refetchIntervalInBackground: false,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Alerts in a time range. Round `start`/`end` so the key doesn't change every render. */
+export function useAlerts(range: TimeRange, { serverId, enabled = true }: QueryScope = {}) {
+  return useQuery({
+    queryKey: vaidioKeys.alerts(range, serverId),
+    queryFn: () => getAlerts({ ...range, serverId }),
+    enabled,
+  });
+}
+
+/** Hourly in/out counts in a time range. */
+export function useCounting(range: TimeRange, { serverId, enabled = true }: QueryScope = {}) {
+  return useQuery({
+    queryKey: vaidioKeys.counting(range, serverId),
+    queryFn: () => getCounting({ ...range, serverId }),
+    enabled,
+  });
+}
+
+/** Natural-language scene search; idle until there is a query. */
+export function useSceneSearch(
+  search: { query: string; start: string; end: string },
+  { serverId, enabled = true }: QueryScope = {}
+) {
+  return useQuery({
+    queryKey: vaidioKeys.scenes(search, serverId),
+    queryFn: () => searchScenes({ ...search, serverId }),
+    enabled: enabled && search.query.trim().length > 0,
+    // Results for a past range don't change
+    staleTime: 5 * 60_000,
+  });
+}
+
+/** AINVR nodes and licensed modules. */
+export function useSystemInfo({ serverId, enabled = true }: QueryScope = {}) {
+  return useQuery({
+    queryKey: vaidioKeys.systemInfo(serverId),
+    queryFn: () => getSystemInfo(serverId),
+    staleTime: 5 * 60_000,
+    enabled,
+  });
+}
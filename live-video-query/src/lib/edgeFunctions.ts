@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VaidioError } from "@/lib/errors";
+
+/**
+ * Build an edge function URL from the Supabase client config.
+ * Used for calls that need the raw Response (streams, binary bodies, 304s),
+ * which `supabase.functions.invoke` doesn't expose.
+ */
+export function getFunctionUrl(name: string): string {
+  // supabaseUrl is a public property on the Supabase client
+  const supabaseUrl = (supabase as any).supabaseUrl as string;
+  return `${supabaseUrl}/functions/v1/${name}`;
+}
+
+/**
+ * Edge functions verify the caller's session, so send the user's access
+ * token rather than the anon key.
+ */
+export async function getFunctionHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new VaidioError({ error: "Not signed in", code: "unauthenticated" });
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${data.session.access_token}`,
+    apikey: (supabase as any).supabaseKey as string,
+  };
+}
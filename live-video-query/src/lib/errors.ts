@@ -0,0 +1,92 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from "@supabase/supabase-js";
+import {
+  ERROR_STATUS,
+  RETRYABLE_ERROR_CODES,
+  isErrorCode,
+  type ErrorBody,
+  type ErrorCode,
+} from "../../supabase/functions/_shared/errors.ts";
+
+export type { ErrorCode };
+
+/**
+ * Error thrown by every Vaidio / query-scene call. Switch on `code` rather
+ * than matching `message`, which is for display only.
+ */
+export class VaidioError extends Error {
+  code: ErrorCode;
+  status: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+
+  constructor(body: Partial<ErrorBody> & { error: string; code: ErrorCode }, status?: number) {
+    super(body.error);
+    this.name = "VaidioError";
+    this.code = body.code;
+    this.status = status ?? ERROR_STATUS[body.code];
+    this.retryable = body.retryable ?? RETRYABLE_ERROR_CODES.has(body.code);
+    this.retryAfterMs = body.retryAfterMs;
+    this.details = body.details;
+  }
+
+  /** Build from a non-2xx edge function response. */
+  static async fromResponse(response: Response): Promise<VaidioError> {
+    const body = (await response.json().catch(() => null)) as Partial<ErrorBody> | null;
+    if (body && isErrorCode(body.code)) {
+      return new VaidioError({ ...body, error: body.error || response.statusText, code: body.code }, response.status);
+    }
+    // Older deployments (or the platform gateway) answer without a code
+    return new VaidioError(
+      { error: body?.error || `Request failed: ${response.status}`, code: codeForStatus(response.status) },
+      response.status
+    );
+  }
+
+  /** Normalize anything thrown by fetch / supabase.functions.invoke. */
+  static async from(error: unknown): Promise<VaidioError> {
+    if (error instanceof VaidioError) return error;
+    if (error instanceof FunctionsHttpError) {
+      return VaidioError.fromResponse(error.context as Response);
+    }
+    if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError || error instanceof TypeError) {
+      return new VaidioError({ error: "Network error — check your connection", code: "network_error" });
+    }
+    return new VaidioError({
+      error: error instanceof Error ? error.message : "Unknown error",
+      code: "internal_error",
+    });
+  }
+}
+
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400: return "invalid_input";
+    case 401: return "unauthenticated";
+    case 402: return "payment_required";
+    case 403: return "forbidden";
+    case 404: return "not_found";
+    case 413: return "payload_too_large";
+    case 429: return "rate_limited";
+    case 504: return "upstream_timeout";
+    default: return status >= 500 ? "upstream_http_error" : "internal_error";
+  }
+}
+
+/** User-facing text for toasts, keyed by error code. */
+export function describeError(error: VaidioError): string {
+  switch (error.code) {
+    case "rate_limited": return "Rate limit exceeded. Please wait a moment.";
+    case "payment_required": return "Please add credits to continue.";
+    case "quota_exceeded": return `${error.message}. Ask an admin to raise it or try again after it resets.`;
+    case "payload_too_large": return "The image is too large to analyze.";
+    case "unauthenticated": return "Your session has expired. Please sign in again.";
+    case "forbidden": return "You don't have access to this server or camera.";
+    case "forbidden_endpoint": return "This action isn't allowed for your role.";
+    case "auth_failed": return "The Vaidio server rejected its configured credentials.";
+    case "upstream_unreachable": return "The Vaidio server is unreachable.";
+    case "upstream_timeout": return "The Vaidio server took too long to respond.";
+    case "network_error": return "Network error — check your connection.";
+    default: return error.message;
+  }
+}
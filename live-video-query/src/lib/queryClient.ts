@@ -0,0 +1,40 @@
+import { QueryCache, QueryClient } from "@tanstack/react-query";
+import { VaidioError } from "@/lib/errors";
+
+declare module "@tanstack/react-query" {
+  interface Register {
+    // Every Vaidio fetcher rejects with a VaidioError
+    defaultError: VaidioError;
+    queryMeta: {
+      /** Called with a query's data when it leaves the cache, e.g. to revoke object URLs */
+      release?: (data: unknown) => void;
+    };
+  }
+}
+
+const MAX_RETRIES = 3;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * The app's query client. Failed queries retry with exponential backoff
+ * unless the error is final (e.g. forbidden or not found), and data stays
+ * fresh for 30s so panels sharing a query don't each refetch it.
+ */
+export function createQueryClient(): QueryClient {
+  const queryCache = new QueryCache();
+  queryCache.subscribe((event) => {
+    if (event.type === "removed") event.query.meta?.release?.(event.query.state.data);
+  });
+
+  return new QueryClient({
+    queryCache,
+    defaultOptions: {
+      queries: {
+        staleTime: 30_000,
+        retry: (failureCount, error) =>
+          failureCount < MAX_RETRIES && (!(error instanceof VaidioError) || error.retryable),
+        retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS),
+      },
+    },
+  });
+}
@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VaidioError } from "@/lib/errors";
+
+import type { SceneEvent, ToolResult } from "../../supabase/functions/_shared/sceneEvents.ts";
+
+export type {
+  DetectedObject, SceneEvent, StructuredAnswer, ToolResult,
+} from "../../supabase/functions/_shared/sceneEvents.ts";
+
+/** One tool call made by an agent-mode answer, with its result once it arrives. */
+export interface AgentStep {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: ToolResult;
+}
+
+/** Vaidio metadata query-scene can add to the prompt, per source. */
+export interface SceneContextOptions {
+  camera: boolean;
+  alerts: boolean;
+  counting: boolean;
+  /** Alert window in minutes */
+  alertMinutes: number;
+}
+
+/** VLM models query-scene lets clients choose from. */
+export interface SceneModels {
+  provider: string;
+  models: string[];
+  defaultModel: string;
+}
+
+export async function getSceneModels(): Promise<SceneModels> {
+  const { data, error } = await supabase.functions.invoke("query-scene", {
+    body: { action: "models" },
+  });
+
+  if (error) {
+    throw await VaidioError.from(error);
+  }
+
+  return data as SceneModels;
+}
+
+/** An analysis profile as listed by query-scene; its system prompt stays server-side. */
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  quickPrompts: string[];
+  /** Model the profile prefers, or null for the provider default */
+  model: string | null;
+}
+
+export interface SceneProfiles {
+  profiles: AnalysisProfile[];
+  /** Profile assigned to the camera (or the default profile), if any */
+  assignedProfileId: string | null;
+}
+
+export async function getAnalysisProfiles(
+  cameraId?: number,
+  cameraType?: string,
+  serverId?: string
+): Promise<SceneProfiles> {
+  const { data, error } = await supabase.functions.invoke("query-scene", {
+    body: { action: "profiles", cameraId, cameraType, serverId },
+  });
+
+  if (error) {
+    throw await VaidioError.from(error);
+  }
+
+  return data as SceneProfiles;
+}
+
+/**
+ * Read an SSE body and pass each `data:` payload to `onData` as parsed JSON.
+ * Stops at `[DONE]`; comments, blank lines and malformed payloads are skipped.
+ * An error thrown by `onData` cancels the body and is rethrown.
+ */
+export async function readSseData(body: ReadableStream<Uint8Array>, onData: (data: unknown) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (rawLine: string): boolean => {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (!line.startsWith("data:")) return true;
+    const jsonStr = line.slice(5).trim();
+    if (jsonStr === "[DONE]") return false;
+    let data: unknown;
+    try {
+      data = JSON.parse(jsonStr);
+    } catch {
+      return true; // ignore malformed payloads
+    }
+    onData(data);
+    return true;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        if (!handleLine(line)) {
+          await reader.cancel();
+          return;
+        }
+      }
+    }
+
+    // Flush a final line without a trailing newline
+    if (buffer.trim()) handleLine(buffer);
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+}
+
+/** Read query-scene's typed events; payloads without a `type` are skipped. */
+export function readSceneEvents(body: ReadableStream<Uint8Array>, onEvent: (event: SceneEvent) => void): Promise<void> {
+  return readSseData(body, (data) => {
+    if (typeof data === "object" && data !== null && typeof (data as { type?: unknown }).type === "string") {
+      onEvent(data as SceneEvent);
+    }
+  });
+}
+
+/** Text added by one OpenAI-style chat completion chunk, if any. */
+export function chunkContent(data: unknown): string | null {
+  const chunk = data as { choices?: Array<{ delta?: { content?: unknown } }> } | null;
+  const content = chunk?.choices?.[0]?.delta?.content;
+  return typeof content === "string" ? content : null;
+}
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+import { VaidioError } from "@/lib/errors";
+import type { ConnectionDiagnostics } from "@/lib/vaidio";
+
+/**
+ * Vaidio server management for admins, through the manage-vaidio-servers
+ * function. Passwords are write-only: they are sent when set or changed and
+ * never come back, only whether one is stored.
+ */
+
+export interface ManagedServer {
+  id: string;
+  name: string;
+  url: string;
+  username: string;
+  isDefault: boolean;
+  isActive: boolean;
+  hasPassword: boolean;
+}
+
+export interface ServerInput {
+  /** Set when editing an existing server */
+  id?: string;
+  name: string;
+  url: string;
+  username: string;
+  /** Leave out to keep the stored password; only allowed while `url` and `username` are unchanged */
+  password?: string;
+}
+
+/** Live sign-in and camera list with the entered credentials */
+export interface ServerTestResult {
+  ok: boolean;
+  error?: string;
+  report: ConnectionDiagnostics;
+}
+
+async function invoke<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("manage-vaidio-servers", { body });
+  if (error) throw await VaidioError.from(error);
+  return data as T;
+}
+
+export async function listManagedServers(): Promise<ManagedServer[]> {
+  return (await invoke<{ servers: ManagedServer[] }>({ action: "list" })).servers;
+}
+
+export function testServer(input: ServerInput): Promise<ServerTestResult> {
+  return invoke({ action: "test", ...input });
+}
+
+/**
+ * Test the credentials, then create or update the server. A failed test
+ * throws a `VaidioError` whose `details.report` holds the test report.
+ */
+export async function saveServer(input: ServerInput): Promise<ManagedServer[]> {
+  return (await invoke<{ servers: ManagedServer[] }>({ action: "save", ...input })).servers;
+}
+
+export async function setDefaultServer(id: string): Promise<ManagedServer[]> {
+  return (await invoke<{ servers: ManagedServer[] }>({ action: "setDefault", id })).servers;
+}
+
+export async function setServerActive(id: string, active: boolean): Promise<ManagedServer[]> {
+  return (await invoke<{ servers: ManagedServer[] }>({ action: "setActive", id, active })).servers;
+}
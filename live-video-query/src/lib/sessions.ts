@@ -0,0 +1,256 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { AgentStep, StructuredAnswer } from "@/lib/sceneQuery";
+
+/**
+ * Saved query sessions (`scene_sessions` / `scene_messages`). Rows are
+ * protected by RLS, so these talk to the tables directly. Snapshots go to the
+ * private `scene-snapshots` bucket and are read back through signed URLs.
+ */
+
+const BUCKET = "scene-snapshots";
+// Signed URLs outlive any reasonable viewing session
+const SIGNED_URL_TTL_S = 60 * 60;
+
+export interface SceneSession {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A snapshot to store with a message: a data URL plus where it came from */
+export interface SnapshotInput {
+  dataUrl: string;
+  capturedAt?: string;
+  cameraId?: number;
+  /** An earlier frame sent for comparison, not the one asked about */
+  earlier?: boolean;
+}
+
+export interface SavedCameraAnswer {
+  cameraId: number;
+  name: string;
+  content: string;
+  error?: string;
+}
+
+export interface MessageInput {
+  role: "user" | "assistant";
+  content: string;
+  cameraId?: number;
+  /** Server the camera belongs to; omitted for the default server */
+  serverId?: string;
+  model?: string | null;
+  profileId?: string | null;
+  snapshots?: SnapshotInput[];
+  structured?: StructuredAnswer;
+  cameraAnswers?: SavedCameraAnswer[];
+  /** Agent tool calls; snapshot images are dropped */
+  steps?: AgentStep[];
+  /** The answer was cancelled or failed before it finished */
+  interrupted?: boolean;
+  timestamp: Date;
+}
+
+export interface SavedMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  cameraId: number | null;
+  serverId: string | null;
+  model: string | null;
+  profileId: string | null;
+  /** Signed URLs, oldest first */
+  snapshots: Array<{ url: string; capturedAt?: string; cameraId?: number; earlier?: boolean }>;
+  /** The retention policy removed this message's snapshots */
+  snapshotsPurged: boolean;
+  structured: StructuredAnswer | null;
+  cameraAnswers: SavedCameraAnswer[] | null;
+  steps: AgentStep[] | null;
+  interrupted: boolean;
+  createdAt: Date;
+}
+
+interface StoredSnapshot {
+  path: string;
+  capturedAt?: string;
+  cameraId?: number;
+  earlier?: boolean;
+}
+
+function toSession(row: { id: string; title: string; created_at: string; updated_at: string }): SceneSession {
+  return { id: row.id, title: row.title, createdAt: new Date(row.created_at), updatedAt: new Date(row.updated_at) };
+}
+
+async function currentUserId(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) throw new Error("Not signed in");
+  return data.session.user.id;
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/s);
+  if (!match) throw new Error("Snapshot is not a data URL");
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+}
+
+export async function listSessions(): Promise<SceneSession[]> {
+  const { data, error } = await supabase
+    .from("scene_sessions")
+    .select("id, title, created_at, updated_at")
+    .order("updated_at", { ascending: false });
+  if (error) throw new Error(`Failed to load sessions: ${error.message}`);
+  return (data ?? []).map(toSession);
+}
+
+export async function createSession(title: string): Promise<SceneSession> {
+  const { data, error } = await supabase
+    .from("scene_sessions")
+    .insert({ title })
+    .select("id, title, created_at, updated_at")
+    .single();
+  if (error) throw new Error(`Failed to create session: ${error.message}`);
+  return toSession(data);
+}
+
+export async function renameSession(sessionId: string, title: string): Promise<void> {
+  const { error } = await supabase.from("scene_sessions").update({ title }).eq("id", sessionId);
+  if (error) throw new Error(`Failed to rename session: ${error.message}`);
+}
+
+/** Delete a session, its messages and its stored snapshots. */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const { data, error: loadError } = await supabase
+    .from("scene_messages")
+    .select("snapshots")
+    .eq("session_id", sessionId);
+  if (loadError) throw new Error(`Failed to delete session: ${loadError.message}`);
+
+  const paths = (data ?? []).flatMap((row) => (row.snapshots as StoredSnapshot[]).map((s) => s.path));
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw new Error(`Failed to delete snapshots: ${error.message}`);
+  }
+
+  const { error } = await supabase.from("scene_sessions").delete().eq("id", sessionId);
+  if (error) throw new Error(`Failed to delete session: ${error.message}`);
+}
+
+/** Upload a message's snapshots, then insert the message row. Resolves to the row's id. */
+export async function saveMessage(sessionId: string, message: MessageInput): Promise<string> {
+  const userId = await currentUserId();
+
+  const snapshots: StoredSnapshot[] = [];
+  for (const snapshot of message.snapshots ?? []) {
+    const blob = dataUrlToBlob(snapshot.dataUrl);
+    const extension = blob.type === "image/png" ? "png" : "jpg";
+    const path = `${userId}/${sessionId}/${crypto.randomUUID()}.${extension}`;
+    const { error } = await supabase.storage.from(BUCKET).upload(path, blob, { contentType: blob.type });
+    if (error) throw new Error(`Failed to store snapshot: ${error.message}`);
+    snapshots.push({
+      path,
+      capturedAt: snapshot.capturedAt,
+      cameraId: snapshot.cameraId,
+      ...(snapshot.earlier ? { earlier: true } : {}),
+    });
+  }
+
+  const { data, error } = await supabase.from("scene_messages").insert({
+    session_id: sessionId,
+    role: message.role,
+    content: message.content,
+    camera_id: message.cameraId ?? null,
+    server_id: message.serverId ?? null,
+    model: message.model ?? null,
+    profile_id: message.profileId ?? null,
+    snapshots,
+    structured: message.structured ?? null,
+    camera_answers: message.cameraAnswers ?? null,
+    steps: message.steps?.map((step) => ({
+      ...step,
+      result: step.result && { summary: step.result.summary, error: step.result.error },
+    })) ?? null,
+    interrupted: message.interrupted ?? false,
+    created_at: message.timestamp.toISOString(),
+  }).select("id").single();
+  if (error) throw new Error(`Failed to save message: ${error.message}`);
+  return data.id;
+}
+
+/** Delete one message and its stored snapshots, e.g. an answer that was regenerated. */
+export async function deleteMessage(messageId: string): Promise<void> {
+  const { data, error: loadError } = await supabase
+    .from("scene_messages")
+    .select("snapshots")
+    .eq("id", messageId)
+    .maybeSingle();
+  if (loadError) throw new Error(`Failed to delete message: ${loadError.message}`);
+
+  const paths = ((data?.snapshots ?? []) as StoredSnapshot[]).map((s) => s.path);
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) throw new Error(`Failed to delete snapshots: ${error.message}`);
+  }
+
+  const { error } = await supabase.from("scene_messages").delete().eq("id", messageId);
+  if (error) throw new Error(`Failed to delete message: ${error.message}`);
+}
+
+/** A session's messages, oldest first, with signed URLs for their snapshots. */
+export async function loadMessages(sessionId: string): Promise<SavedMessage[]> {
+  const { data, error } = await supabase
+    .from("scene_messages")
+    .select("id, role, content, camera_id, server_id, model, profile_id, snapshots, snapshots_purged_at, structured, camera_answers, steps, interrupted, created_at")
+    .eq("session_id", sessionId)
+    .order("created_at");
+  if (error) throw new Error(`Failed to load messages: ${error.message}`);
+
+  const rows = data ?? [];
+  const paths = rows.flatMap((row) => (row.snapshots as StoredSnapshot[]).map((s) => s.path));
+  const urls = new Map<string, string>();
+  if (paths.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrls(paths, SIGNED_URL_TTL_S);
+    if (signError) throw new Error(`Failed to load snapshots: ${signError.message}`);
+    for (const entry of signed ?? []) {
+      if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl);
+    }
+  }
+
+  return rows.map((row) => ({
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    cameraId: row.camera_id,
+    serverId: row.server_id,
+    model: row.model,
+    profileId: row.profile_id,
+    snapshots: (row.snapshots as StoredSnapshot[])
+      .filter((s) => urls.has(s.path))
+      .map((s) => ({ url: urls.get(s.path)!, capturedAt: s.capturedAt, cameraId: s.cameraId, earlier: s.earlier })),
+    snapshotsPurged: row.snapshots_purged_at !== null,
+    structured: row.structured,
+    cameraAnswers: row.camera_answers,
+    steps: row.steps,
+    interrupted: row.interrupted,
+    createdAt: new Date(row.created_at),
+  }));
+}
+
+/** Read a saved snapshot back as a data URL, e.g. to send it to query-scene again. */
+export async function fetchSnapshotDataUrl(url: string): Promise<string> {
+  if (url.startsWith("data:")) return url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load snapshot: ${response.status}`);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Failed to read snapshot"));
+    reader.readAsDataURL(blob);
+  });
+}
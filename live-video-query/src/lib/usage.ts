@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * VLM usage and quotas. query-scene records usage; these read it back (RLS
+ * shows users their own rows and admins everyone's) and let admins manage
+ * quotas through the `list_vlm_quotas` / `set_vlm_quota` functions.
+ */
+
+/** Usage for one user, camera and model combination */
+export interface UsageRow {
+  userId: string;
+  userEmail: string | null;
+  /** Null for the env-configured fallback server */
+  serverId: string | null;
+  cameraId: number | null;
+  model: string;
+  queries: number;
+  promptTokens: number;
+  completionTokens: number;
+  images: number;
+  avgLatencyMs: number;
+}
+
+export type QuotaPeriod = "day" | "month";
+
+export interface Quota {
+  id: string;
+  /** Set for a user quota */
+  userEmail: string | null;
+  /** Set for a team quota */
+  teamName: string | null;
+  period: QuotaPeriod;
+  tokenLimit: number | null;
+  queryLimit: number | null;
+}
+
+export type QuotaTarget = { userEmail: string } | { teamName: string };
+
+// bigint columns may arrive as strings, hence the Number() calls below
+type BigintColumn = number | string;
+
+/** A `vlm_usage_breakdown` row */
+interface UsageBreakdownRow {
+  user_id: string;
+  user_email: string | null;
+  server_id: string | null;
+  camera_id: number | null;
+  model: string;
+  queries: BigintColumn;
+  prompt_tokens: BigintColumn;
+  completion_tokens: BigintColumn;
+  images: BigintColumn;
+  avg_latency_ms: number;
+}
+
+/** A `list_vlm_quotas` row */
+interface QuotaRow {
+  id: string;
+  user_email: string | null;
+  team_name: string | null;
+  period: QuotaPeriod;
+  token_limit: BigintColumn | null;
+  query_limit: number | null;
+}
+
+export async function getUsageBreakdown(since: Date): Promise<UsageRow[]> {
+  const { data, error } = await supabase.rpc("vlm_usage_breakdown", { p_since: since.toISOString() });
+  if (error) throw new Error(`Failed to load usage: ${error.message}`);
+  return ((data ?? []) as UsageBreakdownRow[]).map((row) => ({
+    userId: row.user_id,
+    userEmail: row.user_email,
+    serverId: row.server_id,
+    cameraId: row.camera_id,
+    model: row.model,
+    queries: Number(row.queries),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    images: Number(row.images),
+    avgLatencyMs: row.avg_latency_ms,
+  }));
+}
+
+export async function isUsageAdmin(): Promise<boolean> {
+  const { data, error } = await supabase.rpc("is_vaidio_admin");
+  if (error) throw new Error(`Failed to check admin access: ${error.message}`);
+  return data === true;
+}
+
+export async function listQuotas(): Promise<Quota[]> {
+  const { data, error } = await supabase.rpc("list_vlm_quotas");
+  if (error) throw new Error(`Failed to load quotas: ${error.message}`);
+  return ((data ?? []) as QuotaRow[]).map((row) => ({
+    id: row.id,
+    userEmail: row.user_email,
+    teamName: row.team_name,
+    period: row.period,
+    tokenLimit: row.token_limit === null ? null : Number(row.token_limit),
+    queryLimit: row.query_limit,
+  }));
+}
+
+/** Create or replace the quota for a user or team and period. */
+export async function setQuota(
+  target: QuotaTarget,
+  period: QuotaPeriod,
+  limits: { tokenLimit: number | null; queryLimit: number | null },
+): Promise<void> {
+  const { error } = await supabase.rpc("set_vlm_quota", {
+    p_user_email: "userEmail" in target ? target.userEmail : null,
+    p_team_name: "teamName" in target ? target.teamName : null,
+    p_period: period,
+    p_token_limit: limits.tokenLimit,
+    p_query_limit: limits.queryLimit,
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteQuota(id: string): Promise<void> {
+  const { error } = await supabase.from("vlm_quotas").delete().eq("id", id);
+  if (error) throw new Error(`Failed to delete quota: ${error.message}`);
+}
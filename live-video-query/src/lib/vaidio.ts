@@ -1,4 +1,8 @@
 import { supabase } from "@/integrations/supabase/client";
+import { getFunctionHeaders, getFunctionUrl } from "@/lib/edgeFunctions";
+import { VaidioError } from "@/lib/errors";
+
+export { VaidioError, describeError, type ErrorCode } from "@/lib/errors";
 
 export interface VaidioCamera {
   cameraId: number;
@@ -20,6 +24,56 @@ export interface VaidioAlert {
   message?: string;
 }
 
+export interface VaidioCountingBucket {
+  datetime: string;
+  inCount: number;
+  outCount: number;
+}
+
+export interface VaidioScene {
+  id: number;
+  datetime: string;
+  thumbnailUrl?: string;
+  cameraId: number;
+}
+
+/** AINVR nodes (`/api/ainvrs`) and licensed modules (`/api/modules`) */
+export interface VaidioSystemInfo {
+  servers: Array<{ id: number; name: string; version?: string; status?: string }>;
+  modules: Array<{ name: string; enabled: boolean }>;
+}
+
+/**
+ * Identify a camera across servers; camera ids are only unique per server.
+ * A null server is the env-configured fallback.
+ */
+export function cameraKey(cameraId: number, serverId?: string | null): string {
+  return `${serverId ?? 'default'}:${cameraId}`;
+}
+
+/** A Vaidio server the signed-in user has been granted access to. */
+export interface VaidioServer {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  role: 'viewer' | 'operator' | 'admin';
+}
+
+/**
+ * Servers the user may pick from, default first. Empty when none are
+ * configured in `vaidio_servers`, in which case the proxy falls back to the
+ * env-configured server.
+ */
+export async function listServers(): Promise<VaidioServer[]> {
+  const { data, error } = await supabase.rpc('list_vaidio_servers');
+  if (error) {
+    throw new VaidioError({ error: `Failed to load servers: ${error.message}`, code: 'internal_error' });
+  }
+  return ((data ?? []) as Array<{ id: string; name: string; is_default: boolean; role: VaidioServer['role'] }>).map(
+    (row) => ({ id: row.id, name: row.name, isDefault: row.is_default, role: row.role })
+  );
+}
+
 export async function vaidioRequest<T>(
   endpoint: string,
   method: string = 'GET',
@@ -35,30 +89,196 @@ export async function vaidioRequest<T>(
   });
 
   if (error) {
-    throw new Error(error.message);
+    throw await VaidioError.from(error);
   }
 
   return data as T;
 }
 
-export async function getCameras(): Promise<VaidioCamera[]> {
-  const response = await vaidioRequest<{ content: VaidioCamera[] }>('/api/cameras');
+export async function getCameras(params: { statuses?: string[]; serverId?: string } = {}): Promise<VaidioCamera[]> {
+  const query = params.statuses?.length ? `?statuses=${params.statuses.join(',')}` : '';
+  const response = await vaidioRequest<{ content: VaidioCamera[] }>(
+    `/api/cameras${query}`,
+    'GET',
+    undefined,
+    false,
+    params.serverId
+  );
   return response.content || [];
 }
 
-export async function getCameraSnapshot(snapshotPath: string): Promise<string> {
+export async function getCameraSnapshot(snapshotPath: string, serverId?: string): Promise<string> {
   if (!snapshotPath) {
-    throw new Error('No snapshot path available');
+    throw new VaidioError({ error: 'No snapshot path available', code: 'invalid_input' });
   }
   const response = await vaidioRequest<{ image: string }>(
     `/${snapshotPath}`,
     'GET',
     undefined,
-    true
+    true,
+    serverId
   );
   return response.image;
 }
 
+/**
+ * A snapshot held as an object URL. Call `revokeSnapshotFrame` once it is no
+ * longer displayed.
+ */
+export interface SnapshotFrame {
+  objectUrl: string;
+  blob: Blob;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Fetch an image through vaidio-proxy as raw bytes. Passing the previous
+ * frame sends its validators, and `null` is returned when the proxy answers
+ * 304 (the frame hasn't changed).
+ */
+export async function getImageBinary(
+  endpoint: string,
+  previous?: SnapshotFrame | null,
+  serverId?: string
+): Promise<SnapshotFrame | null> {
+  const headers = await getFunctionHeaders();
+  if (previous?.etag) headers['If-None-Match'] = previous.etag;
+  if (previous?.lastModified) headers['If-Modified-Since'] = previous.lastModified;
+
+  const payload: Record<string, unknown> = { endpoint, method: 'GET', returnImage: true, responseType: 'binary' };
+  if (serverId) payload.serverId = serverId;
+
+  let response: Response;
+  try {
+    response = await fetch(getFunctionUrl('vaidio-proxy'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+    });
+  } catch (error) {
+    throw await VaidioError.from(error);
+  }
+
+  if (response.status === 304) return null;
+  if (!response.ok) {
+    throw await VaidioError.fromResponse(response);
+  }
+
+  const blob = await response.blob();
+  return {
+    objectUrl: URL.createObjectURL(blob),
+    blob,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
+
+export function getCameraSnapshotBinary(
+  cameraId: number,
+  previous?: SnapshotFrame | null,
+  serverId?: string
+): Promise<SnapshotFrame | null> {
+  return getImageBinary(`/api/streaming/${cameraId}/live.jpg`, previous, serverId);
+}
+
+export function revokeSnapshotFrame(frame: SnapshotFrame | null | undefined): void {
+  if (frame) URL.revokeObjectURL(frame.objectUrl);
+}
+
+/** Encode a frame as a data URL, e.g. to send it to query-scene. */
+export function snapshotFrameToDataUrl(frame: SnapshotFrame): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read snapshot'));
+    reader.readAsDataURL(frame.blob);
+  });
+}
+
+/** A frame with its capture time, as sent to query-scene in a sequence. */
+export interface TimedFrame {
+  imageBase64: string;
+  capturedAt: string;
+}
+
+export interface FrameSequenceOptions {
+  /** Frames to capture */
+  count: number;
+  /** Delay between captures */
+  intervalMs: number;
+  serverId?: string;
+  /** Called after each capture attempt with the number of attempts so far */
+  onProgress?: (attempted: number, count: number) => void;
+}
+
+/**
+ * Capture a timed sequence of live frames from one camera. Frames the camera
+ * hasn't updated (304) or that fail are skipped, so fewer than `count` frames
+ * may be returned.
+ */
+export async function captureFrameSequence(
+  cameraId: number,
+  { count, intervalMs, serverId, onProgress }: FrameSequenceOptions
+): Promise<TimedFrame[]> {
+  const frames: TimedFrame[] = [];
+  const startedAt = Date.now();
+  let previous: SnapshotFrame | null = null;
+
+  try {
+    for (let i = 0; i < count; i++) {
+      // Keep to the schedule even when a capture is slow
+      const wait = startedAt + i * intervalMs - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+
+      const capturedAt = new Date().toISOString();
+      try {
+        const frame = await getCameraSnapshotBinary(cameraId, previous, serverId);
+        if (frame) {
+          revokeSnapshotFrame(previous);
+          previous = frame;
+          frames.push({ imageBase64: await snapshotFrameToDataUrl(frame), capturedAt });
+        }
+      } catch (error) {
+        console.warn(`Frame ${i + 1} of camera ${cameraId} failed:`, error);
+      }
+      onProgress?.(i + 1, count);
+    }
+  } finally {
+    revokeSnapshotFrame(previous);
+  }
+
+  return frames;
+}
+
+export type CameraSnapshotStatus = 'ok' | 'timeout' | 'http_error' | 'missing_path' | 'error';
+
+/** Per-camera outcome of a batch snapshot request. */
+export interface CameraSnapshotResult {
+  status: CameraSnapshotStatus;
+  /** Upstream HTTP status when `status` is `http_error` */
+  httpStatus?: number;
+  /** Why the fetch failed when `status` is `error` */
+  detail?: string;
+  latencyMs: number;
+}
+
+export interface CameraSnapshotBatch {
+  images: Record<number, string>;
+  results: Record<number, CameraSnapshotResult>;
+}
+
+/** Short human-readable reason for a blank tile. */
+export function describeSnapshotResult(result: CameraSnapshotResult | undefined): string | null {
+  if (!result || result.status === 'ok') return null;
+  switch (result.status) {
+    case 'timeout': return 'Timed out';
+    case 'http_error': return `Camera returned ${result.httpStatus}`;
+    case 'missing_path': return 'No snapshot available';
+    default: return 'Snapshot failed';
+  }
+}
+
 /**
  * Fetch snapshots for multiple cameras in a single request.
  * NOTE: Uses a special batch payload shape handled by the vaidio-proxy edge function.
@@ -66,35 +286,53 @@ export async function getCameraSnapshot(snapshotPath: string): Promise<string> {
  * to GET /api/streaming/{cameraId}/live.jpg for each camera.
  */
 export async function getCameraSnapshotsBatch(
-  items: Array<{ cameraId: number; snapshot: string | null }>
-): Promise<Record<number, string>> {
+  items: Array<{ cameraId: number; snapshot: string | null }>,
+  serverId?: string
+): Promise<CameraSnapshotBatch> {
   const batchSnapshots: Record<string, string | null> = {};
   for (const item of items) {
     batchSnapshots[String(item.cameraId)] = item.snapshot;
   }
 
+  // Camera ids are only unique per server, so one batch covers one server
+  const body: Record<string, unknown> = { batchSnapshots };
+  if (serverId) body.serverId = serverId;
+
   const { data, error } = await supabase.functions.invoke('vaidio-proxy', {
-    body: { batchSnapshots },
+    body,
   });
 
   if (error) {
-    throw new Error(error.message);
+    throw await VaidioError.from(error);
+  }
+
+  const payload = data as {
+    images?: Record<string, string | null>;
+    results?: Record<string, CameraSnapshotResult>;
+  } | null;
+
+  const images: Record<number, string> = {};
+  for (const [key, value] of Object.entries(payload?.images || {})) {
+    const id = Number(key);
+    if (!Number.isFinite(id) || !value) continue;
+    images[id] = value;
   }
 
-  const images = (data as { images?: Record<string, string | null> } | null)?.images || {};
-  const result: Record<number, string> = {};
-  for (const [key, value] of Object.entries(images)) {
+  const results: Record<number, CameraSnapshotResult> = {};
+  for (const [key, value] of Object.entries(payload?.results || {})) {
     const id = Number(key);
     if (!Number.isFinite(id) || !value) continue;
-    result[id] = value;
+    results[id] = value;
   }
-  return result;
+
+  return { images, results };
 }
 
 export async function getAlerts(params: {
   start: string;
   end: string;
   cameraIds?: number[];
+  serverId?: string;
 }): Promise<VaidioAlert[]> {
   const queryParams = new URLSearchParams({
     start: params.start,
@@ -104,15 +342,98 @@ export async function getAlerts(params: {
     queryParams.set('cameraIds', params.cameraIds.join(','));
   }
   const response = await vaidioRequest<{ content: VaidioAlert[] }>(
-    `/api/alerts?${queryParams.toString()}`
+    `/api/alerts?${queryParams.toString()}`,
+    'GET',
+    undefined,
+    false,
+    params.serverId
+  );
+  return response.content || [];
+}
+
+/** Hourly in/out counts; servers that report a single `count` have it as `inCount`. */
+export async function getCounting(params: {
+  start: string;
+  end: string;
+  cameraIds?: number[];
+  serverId?: string;
+}): Promise<VaidioCountingBucket[]> {
+  const queryParams = new URLSearchParams({ start: params.start, end: params.end });
+  if (params.cameraIds?.length) {
+    queryParams.set('cameraIds', params.cameraIds.join(','));
+  }
+  const response = await vaidioRequest<{
+    content: Array<{ datetime: string; inCount?: number; outCount?: number; count?: number }>;
+  }>(`/api/counting?${queryParams.toString()}`, 'GET', undefined, false, params.serverId);
+  return (response.content || []).map((item) => ({
+    datetime: item.datetime,
+    inCount: item.inCount ?? item.count ?? 0,
+    outCount: item.outCount ?? 0,
+  }));
+}
+
+/** Natural-language search over recorded scenes. */
+export async function searchScenes(params: {
+  query: string;
+  start: string;
+  end: string;
+  serverId?: string;
+}): Promise<VaidioScene[]> {
+  const queryParams = new URLSearchParams({ query: params.query, start: params.start, end: params.end });
+  const response = await vaidioRequest<{ content: VaidioScene[] }>(
+    `/api/scenes?${queryParams.toString()}`,
+    'GET',
+    undefined,
+    false,
+    params.serverId
   );
   return response.content || [];
 }
 
-export async function getSystemInfo(): Promise<{ servers: unknown[]; modules: unknown[] }> {
+export type DiagnosticErrorKind = 'dns' | 'tls' | 'timeout' | 'refused' | 'http' | 'auth' | 'unknown';
+
+export interface DiagnosticStep {
+  ok: boolean;
+  durationMs: number;
+  httpStatus?: number;
+  errorKind?: DiagnosticErrorKind;
+  detail?: string;
+}
+
+/** Mirrors the report built by vaidio-proxy/diagnostics.ts */
+export interface ConnectionDiagnostics {
+  serverUrl: string;
+  startedAt: string;
+  totalMs: number;
+  candidates: Array<{ baseUrl: string; fallback: boolean; auth: DiagnosticStep }>;
+  selectedBaseUrl: string | null;
+  endpoints: {
+    ainvrs: DiagnosticStep & { count?: number };
+    modules: DiagnosticStep & { count?: number; names?: string[] };
+    cameras: DiagnosticStep & { count?: number };
+  } | null;
+}
+
+/** Run vaidio-proxy's step-by-step connectivity check against a server. */
+export async function runConnectionDiagnostics(serverId?: string): Promise<ConnectionDiagnostics> {
+  const payload: Record<string, unknown> = { diagnostics: true };
+  if (serverId) payload.serverId = serverId;
+
+  const { data, error } = await supabase.functions.invoke('vaidio-proxy', {
+    body: payload,
+  });
+
+  if (error) {
+    throw await VaidioError.from(error);
+  }
+
+  return data as ConnectionDiagnostics;
+}
+
+export async function getSystemInfo(serverId?: string): Promise<VaidioSystemInfo> {
   const [servers, modules] = await Promise.all([
-    vaidioRequest<{ content: unknown[] }>('/api/ainvrs'),
-    vaidioRequest<{ content: unknown[] }>('/api/modules'),
+    vaidioRequest<{ content: VaidioSystemInfo['servers'] }>('/api/ainvrs', 'GET', undefined, false, serverId),
+    vaidioRequest<{ content: VaidioSystemInfo['modules'] }>('/api/modules', 'GET', undefined, false, serverId),
   ]);
   return {
     servers: servers.content || [],
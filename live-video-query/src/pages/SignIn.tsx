@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Loader2, Video } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface SignInProps {
+  onSignIn: (email: string, password: string) => Promise<void>;
+}
+
+export default function SignIn({ onSignIn }: SignInProps) {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.title = "Sign in — Live Video Query";
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSignIn(email.trim(), password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="h-full flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-card border border-border rounded-lg p-6 space-y-4"
+      >
+        <div className="flex items-center gap-2">
+          <Video className="h-5 w-5 text-primary" />
+          <h1 className="text-base font-semibold">Live Video Query</h1>
+        </div>
+        <p className="text-sm text-muted-foreground">Sign in to access your Vaidio cameras.</p>
+
+        <div className="space-y-2">
+          <Input
+            type="email"
+            placeholder="Email"
+            autoComplete="email"
+            className="bg-secondary"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            className="bg-secondary"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <Button type="submit" className="w-full" disabled={isSubmitting || !email.trim() || !password}>
+          {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+          Sign in
+        </Button>
+      </form>
+    </div>
+  );
+}
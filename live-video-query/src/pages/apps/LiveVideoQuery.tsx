@@ -1,90 +1,290 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { Video, RefreshCw, Loader2, Trash2, MessageSquare } from "lucide-react";
+import { useState, useEffect, useRef, useMemo } from "react";
+import {
+  Video, RefreshCw, Loader2, MessageSquare, Stethoscope, Film, LayoutGrid, Braces, X, History, Plus, Gauge, Bot, Columns2,
+  Square, RotateCcw, Server,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useVaidioApi } from "@/hooks/useVaidioApi";
-import { useSceneQuery, ChatMessage } from "@/hooks/useSceneQuery";
+import { useIsVaidioAdmin, useServers } from "@/hooks/useVaidioQueries";
+import {
+  latestFrame, useSceneQuery, ChatMessage, type CameraAnswer, type CameraFrame,
+} from "@/hooks/useSceneQuery";
+import {
+  describeError, describeSnapshotResult, getCameraSnapshotsBatch, VaidioError, type TimedFrame,
+} from "@/lib/vaidio";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import ConnectionDiagnostics from "@/components/ConnectionDiagnostics";
+import BoundingBoxOverlay from "@/components/BoundingBoxOverlay";
+import SessionList from "@/components/SessionList";
+import UsagePanel from "@/components/UsagePanel";
+import ServerAdminPanel from "@/components/ServerAdminPanel";
+import CameraGrid, { type GridSize } from "@/components/CameraGrid";
+import type { AgentStep, SceneContextOptions, StructuredAnswer } from "@/lib/sceneQuery";
 
-const quickPrompts = [
+// Used when no analysis profile is configured
+const defaultQuickPrompts = [
   "What is happening?",
   "Anything unusual?",
   "How many people?",
   "Safety concerns?",
 ];
 
+const compareQuickPrompts = [
+  "What changed?",
+  "Is it still there?",
+  "Anything new?",
+];
+
+// query-scene accepts at most 16 frames per sequence
+const MAX_SEQUENCE_FRAMES = 16;
+const sequenceDurations = [10, 20, 30, 60];
+const sequenceIntervals = [1, 2, 3, 5];
+// query-scene accepts at most 12 cameras per question
+const MAX_QUERY_CAMERAS = 12;
+
+type QueryMode = "snapshot" | "sequence" | "cameras" | "structured" | "agent" | "compare";
+
+const contextSources: Array<{ key: "camera" | "alerts" | "counting"; label: string }> = [
+  { key: "camera", label: "Camera info" },
+  { key: "alerts", label: "Recent alerts" },
+  { key: "counting", label: "Counts" },
+];
+const alertWindows = [15, 30, 60, 240];
+
+const layouts: Array<{ value: "1" | `${GridSize}`; label: string }> = [
+  { value: "1", label: "Single" },
+  { value: "2", label: "2×2" },
+  { value: "3", label: "3×3" },
+  { value: "4", label: "4×4" },
+];
+
 export default function LiveVideoQuery() {
+  const servers = useServers();
+  const serverList = servers.data ?? [];
+  const [pickedServerId, setPickedServerId] = useState<string | null>(null);
+  // The default server (or the first one granted) until another is picked;
+  // with none configured, requests go to the env-configured server
+  const serverId = pickedServerId ?? (serverList.find((s) => s.isDefault) ?? serverList[0])?.id;
+  const [selectedCameraId, setSelectedCameraId] = useState<number | null>(null);
   const {
-    isLoading, snapshotBase64, activeCameraId, cameras,
-    fetchSnapshot, fetchCameras, findWorkingCamera,
-  } = useVaidioApi();
+    isLoading, error, snapshotUrl, activeCameraId, activeServerId, cameras, camerasLoaded,
+    refetchCameras, refreshSnapshot, findWorkingCamera, captureSnapshot, captureSequence,
+  } = useVaidioApi(selectedCameraId, { serverId, enabled: !servers.isPending });
+  const activeServerName = serverList.find((s) => s.id === activeServerId)?.name;
+  // The camera of the displayed frame, on its server
+  const activeCamera = activeCameraId !== null
+    ? { id: activeCameraId, serverId: activeServerId ?? undefined }
+    : undefined;
 
-  const { messages, isQuerying, streamingContent, queryScene, clearHistory } = useSceneQuery();
+  const {
+    messages, isQuerying, streamingContent, streamingCameraAnswers, streamingStatus, streamingSteps,
+    queryScene, queryCameras, cancelQuery, retry, regenerate, clearHistory, models, model, setModel, profiles, profile, setProfileId,
+    sessions, sessionId, openSession, renameSession, deleteSession,
+  } = useSceneQuery(
+    activeCamera
+      ? {
+          ...activeCamera,
+          type: cameras.find((c) => c.id === activeCamera.id && c.serverId === activeServerId)?.type,
+        }
+      : null
+  );
+  const cameraNames = useMemo(() => new Map(cameras.map((c) => [c.key, c.name])), [cameras]);
+  // The frame a compare-mode question is set against
+  const earlierFrame = useMemo(
+    () => (activeCameraId !== null ? latestFrame(messages, activeCameraId, activeServerId ?? undefined) : null),
+    [messages, activeCameraId, activeServerId]
+  );
 
-  const [isConnected, setIsConnected] = useState(false);
   const [question, setQuestion] = useState("");
-  const [selectedCameraId, setSelectedCameraId] = useState<number | null>(null);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [mode, setMode] = useState<QueryMode>("snapshot");
+  const [sequenceDuration, setSequenceDuration] = useState(30);
+  const [sequenceInterval, setSequenceInterval] = useState(3);
+  // Cameras for multi-camera questions; empty means all Processing cameras
+  const [queryCameraIds, setQueryCameraIds] = useState<number[]>([]);
+  const [captureStatus, setCaptureStatus] = useState<string | null>(null);
+  // Live grid of the server's cameras instead of the single feed
+  const [gridSize, setGridSize] = useState<GridSize | null>(null);
+  // Vaidio metadata to ground answers in; all sources off by default
+  const [contextOptions, setContextOptions] = useState<SceneContextOptions>({
+    camera: false, alerts: false, counting: false, alertMinutes: 30,
+  });
+  const hasContext = contextOptions.camera || contextOptions.alerts || contextOptions.counting;
+  // Boxes from the latest structured answer, drawn over the live feed
+  const [overlay, setOverlay] = useState<{
+    cameraId: number;
+    serverId: string | null;
+    answer: StructuredAnswer;
+    at: Date;
+  } | null>(null);
+  const showOverlay = overlay !== null && overlay.cameraId === activeCameraId && overlay.serverId === activeServerId;
+  // What the right panel shows instead of the current conversation
+  const [sidePanel, setSidePanel] = useState<"history" | "sessions" | "usage" | "servers">("history");
+  const { data: isAdmin = false } = useIsVaidioAdmin();
   const historyEndRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll history
   useEffect(() => {
     historyEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, streamingContent]);
+  }, [messages, streamingContent, streamingCameraAnswers, streamingStatus, streamingSteps]);
 
-  // Connect & find working camera
-  const connectToVaidio = useCallback(async () => {
-    const cameraList = await fetchCameras();
-    if (cameraList.length > 0) {
-      const cameraId = await findWorkingCamera();
+  // Show the boxes of a new structured answer on the feed it was asked about
+  useEffect(() => {
+    const last = messages[messages.length - 1];
+    if (last?.structured && last.cameraId !== undefined) {
+      setOverlay({ cameraId: last.cameraId, serverId: last.serverId ?? null, answer: last.structured, at: last.timestamp });
+    }
+  }, [messages]);
+
+  // Once the camera list loads, select the first camera that returns a frame
+  const isConnected = selectedCameraId !== null;
+  useEffect(() => {
+    if (isConnected || !camerasLoaded) return;
+    if (cameras.length === 0) {
+      toast.error("No cameras available", { id: "vaidio-connect" });
+      setShowDiagnostics(true);
+      return;
+    }
+    let cancelled = false;
+    findWorkingCamera(cameras).then((cameraId) => {
+      if (cancelled) return;
       if (cameraId) {
-        const cam = cameraList.find((c) => c.id === cameraId);
+        const cam = cameras.find((c) => c.id === cameraId);
         setSelectedCameraId(cameraId);
-        setIsConnected(true);
         toast.success(`Camera ${cam?.name || cameraId} loaded.`);
       } else {
-        setSelectedCameraId(cameraList[0].id);
-        setIsConnected(true);
-        toast.success(`${cameraList.length} cameras found.`);
+        setSelectedCameraId(cameras[0].id);
+        toast.success(`${cameras.length} cameras found.`);
       }
-    } else {
-      toast.error("No cameras available");
-    }
-  }, [findWorkingCamera, fetchCameras, toast]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, camerasLoaded, cameras, findWorkingCamera]);
 
-  // Auto-connect on mount
+  // Report API failures by error code; replaces the generic connect toast
   useEffect(() => {
-    if (!isConnected) connectToVaidio();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
-
-  // Snapshot polling
-  useEffect(() => {
-    if (!isConnected || !selectedCameraId) return;
-    fetchSnapshot(selectedCameraId);
-    const interval = setInterval(() => fetchSnapshot(selectedCameraId), 5000);
-    return () => clearInterval(interval);
-  }, [isConnected, selectedCameraId, fetchSnapshot]);
+    if (!error) return;
+    toast.error(describeError(error), {
+      id: "vaidio-connect",
+      action: error.retryable ? { label: "Retry", onClick: () => refetchCameras() } : undefined,
+    });
+  }, [error, refetchCameras]);
 
   const handleCameraChange = (val: string) => {
-    const camId = Number(val);
-    setSelectedCameraId(camId);
-    fetchSnapshot(camId);
+    setSelectedCameraId(Number(val));
+    setOverlay(null);
+  };
+
+  // Camera ids are per server, so a new server starts from its own camera list
+  const handleServerChange = (val: string) => {
+    if (val === serverId) return;
+    setPickedServerId(val);
+    setSelectedCameraId(null);
+    setQueryCameraIds([]);
+    setOverlay(null);
+  };
+
+  const isBusy = isQuerying || captureStatus !== null;
+  const canAsk = mode === "cameras" ? cameras.length > 0 : !!snapshotUrl && (mode !== "compare" || !!earlierFrame);
+  const quickPrompts = mode === "compare"
+    ? compareQuickPrompts
+    : profile && profile.quickPrompts.length > 0 ? profile.quickPrompts : defaultQuickPrompts;
+
+  const toggleMode = (next: QueryMode) => setMode((current) => (current === next ? "snapshot" : next));
+
+  const toggleQueryCamera = (cameraId: number) => {
+    setQueryCameraIds((ids) => (ids.includes(cameraId) ? ids.filter((id) => id !== cameraId) : [...ids, cameraId]));
+  };
+
+  // Picking tiles in the grid asks about them together; unpicking the last goes back to one camera
+  const toggleTileSelection = (cameraId: number) => {
+    const current = mode === "cameras" ? queryCameraIds : [];
+    const next = current.includes(cameraId) ? current.filter((id) => id !== cameraId) : [...current, cameraId];
+    setQueryCameraIds(next);
+    if (next.length > 0) setMode("cameras");
+    else if (mode === "cameras") setMode("snapshot");
+  };
+
+  // Capture frames over the chosen duration; capped frame count widens the interval
+  const captureFrames = async (): Promise<TimedFrame[] | null> => {
+    const count = Math.min(MAX_SEQUENCE_FRAMES, Math.floor(sequenceDuration / sequenceInterval) + 1);
+    const intervalMs = (sequenceDuration * 1000) / (count - 1);
+    setCaptureStatus(`Capturing frame 0/${count}`);
+    try {
+      const frames = await captureSequence({
+        count,
+        intervalMs,
+        onProgress: (done) => setCaptureStatus(`Capturing frame ${done}/${count}`),
+      });
+      if (frames.length < 2) {
+        toast.error("Not enough frames captured. The camera may not be updating.");
+        return null;
+      }
+      return frames;
+    } finally {
+      setCaptureStatus(null);
+    }
+  };
+
+  // Grab the current frame of each chosen camera in one batch request
+  const captureCameraFrames = async (): Promise<CameraFrame[] | null> => {
+    const targets = (queryCameraIds.length ? cameras.filter((c) => queryCameraIds.includes(c.id)) : cameras)
+      .slice(0, MAX_QUERY_CAMERAS);
+    setCaptureStatus(`Capturing ${targets.length} cameras`);
+    try {
+      const batch = await getCameraSnapshotsBatch(
+        targets.map((c) => ({ cameraId: c.id, snapshot: `/api/streaming/${c.id}/live.jpg` })),
+        serverId
+      );
+      const failed = targets.filter((c) => !batch.images[c.id]);
+      if (failed.length > 0) {
+        toast.warning(`Skipped ${failed.map((c) => `${c.name} (${describeSnapshotResult(batch.results[c.id]) ?? "no image"})`).join(", ")}`);
+      }
+      const frames = targets
+        .filter((c) => batch.images[c.id])
+        .map((c) => ({ cameraId: c.id, name: c.name, imageBase64: batch.images[c.id] }));
+      if (frames.length === 0) {
+        toast.error("No camera snapshots could be captured");
+        return null;
+      }
+      return frames;
+    } catch (err) {
+      toast.error(describeError(await VaidioError.from(err)));
+      return null;
+    } finally {
+      setCaptureStatus(null);
+    }
+  };
+
+  const ask = async (prompt: string) => {
+    if (!canAsk || isBusy) return;
+    if (mode === "cameras") {
+      const frames = await captureCameraFrames();
+      if (frames) queryCameras(frames, prompt, serverId);
+      return;
+    }
+    const image = mode === "sequence" ? await captureFrames() : await captureSnapshot();
+    if (!image) return;
+    queryScene(image, prompt, activeCamera, {
+      structured: mode === "structured",
+      agent: mode === "agent",
+      compare: mode === "compare",
+      context: hasContext ? contextOptions : undefined,
+    });
   };
 
   // Submit question
   const handleSubmit = () => {
-    if (!question.trim() || !snapshotBase64 || isQuerying) return;
-    queryScene(snapshotBase64, question.trim());
+    if (!question.trim() || isBusy) return;
+    ask(question.trim());
     setQuestion("");
   };
 
-  const handleQuickPrompt = (prompt: string) => {
-    if (!snapshotBase64 || isQuerying) return;
-    queryScene(snapshotBase64, prompt);
-  };
-
   useEffect(() => {
     document.title = "Live Video Query";
   }, []);
@@ -96,8 +296,25 @@ export default function LiveVideoQuery() {
       <div className="flex-1 flex overflow-hidden">
         {/* Left panel - Camera feed + Question input */}
         <div className="flex-1 flex flex-col border-r border-border min-w-0">
-          {/* Camera selector */}
+          {/* Server and camera selectors */}
           <div className="px-4 py-2 border-b border-border flex items-center gap-3 shrink-0">
+            {serverList.length > 1 && (
+              <>
+                <span className="text-sm font-medium text-muted-foreground">Server</span>
+                <Select value={serverId ?? ""} onValueChange={handleServerChange}>
+                  <SelectTrigger className="w-[180px] bg-secondary h-8 text-sm">
+                    <SelectValue placeholder="Select server..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {serverList.map((server) => (
+                      <SelectItem key={server.id} value={server.id}>
+                        {server.name}{server.isDefault ? " (default)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
             <span className="text-sm font-medium text-muted-foreground">Camera</span>
             <Select
               value={selectedCameraId ? selectedCameraId.toString() : ""}
@@ -108,58 +325,302 @@ export default function LiveVideoQuery() {
               </SelectTrigger>
               <SelectContent>
                 {cameras.map((cam) => (
-                  <SelectItem key={cam.id} value={cam.id.toString()}>
+                  <SelectItem key={cam.key} value={cam.id.toString()}>
                     {cam.name || `Camera ${cam.id}`}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
-            {isConnected && selectedCameraId && (
+            <Select
+              value={gridSize ? String(gridSize) : "1"}
+              onValueChange={(v) => setGridSize(v === "1" ? null : (Number(v) as GridSize))}
+            >
+              <SelectTrigger className="w-[90px] bg-secondary h-8 text-sm" title="Layout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {layouts.map((layout) => (
+                  <SelectItem key={layout.value} value={layout.value}>
+                    {layout.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isConnected && selectedCameraId && !gridSize && (
               <Button
                 variant="ghost"
                 size="icon"
                 className="h-8 w-8"
-                onClick={() => fetchSnapshot(selectedCameraId)}
+                onClick={refreshSnapshot}
               >
                 <RefreshCw className="h-3.5 w-3.5" />
               </Button>
             )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Connection diagnostics"
+              onClick={() => setShowDiagnostics((v) => !v)}
+            >
+              <Stethoscope className="h-3.5 w-3.5" />
+            </Button>
           </div>
 
+          {showDiagnostics && <ConnectionDiagnostics serverId={serverId} onClose={() => setShowDiagnostics(false)} />}
+
           {/* Video feed */}
-          <div className="p-3 min-h-0">
-            <div className="w-full max-h-[60vh] bg-black rounded-lg flex items-center justify-center overflow-hidden relative">
-              {snapshotBase64 ? (
-                <>
-                  <img
-                    src={snapshotBase64}
-                    alt="Camera Live Feed"
-                    className="w-full h-full object-contain"
-                  />
-                  {selectedCameraId && (
-                    <div className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-0.5 rounded">
-                      {cameras.find((c) => c.id === selectedCameraId)?.name || `Camera ${selectedCameraId}`}
+          {gridSize ? (
+            <div className="p-3 min-h-0 max-h-[60vh] overflow-y-auto">
+              <CameraGrid
+                cameras={cameras}
+                serverId={serverId}
+                size={gridSize}
+                activeCameraId={selectedCameraId}
+                selectedCameraIds={mode === "cameras" ? queryCameraIds : []}
+                selectionFull={queryCameraIds.length >= MAX_QUERY_CAMERAS}
+                onActivate={(cameraId) => handleCameraChange(String(cameraId))}
+                onToggleSelect={toggleTileSelection}
+              />
+            </div>
+          ) : (
+            <div className="p-3 min-h-0">
+              <div className="w-full max-h-[60vh] bg-black rounded-lg flex items-center justify-center overflow-hidden relative">
+                {snapshotUrl ? (
+                  <>
+                    <div className="relative">
+                      <img
+                        src={snapshotUrl}
+                        alt="Camera Live Feed"
+                        className="block max-w-full max-h-[60vh] object-contain"
+                      />
+                      {showOverlay && overlay.answer.objects.length > 0 && (
+                        <BoundingBoxOverlay objects={overlay.answer.objects} />
+                      )}
                     </div>
-                  )}
-                </>
-              ) : (
-                <div className="text-center text-muted-foreground">
-                  {isLoading ? (
-                    <Loader2 className="h-10 w-10 mx-auto animate-spin opacity-30" />
-                  ) : (
-                    <>
-                      <Video className="h-10 w-10 mx-auto mb-2 opacity-30" />
-                      <p className="text-sm">Connecting to camera...</p>
-                    </>
-                  )}
-                </div>
-              )}
+                    {showOverlay && (
+                      <div className="absolute top-2 right-2 bg-black/70 text-white text-xs pl-2 rounded flex items-center gap-1">
+                        Boxes from {overlay.at.toLocaleTimeString()}
+                        <button className="p-1" onClick={() => setOverlay(null)} aria-label="Hide boxes">
+                          <X className="h-3 w-3" />
+                        </button>
+                      </div>
+                    )}
+                    {selectedCameraId && (
+                      <div className="absolute bottom-2 left-2 bg-black/70 text-white text-xs px-2 py-0.5 rounded">
+                        {cameras.find((c) => c.id === selectedCameraId)?.name || `Camera ${selectedCameraId}`}
+                        {serverList.length > 1 && activeServerName && ` · ${activeServerName}`}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-center text-muted-foreground">
+                    {isLoading ? (
+                      <Loader2 className="h-10 w-10 mx-auto animate-spin opacity-30" />
+                    ) : (
+                      <>
+                        <Video className="h-10 w-10 mx-auto mb-2 opacity-30" />
+                        <p className="text-sm">Connecting to camera...</p>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Question input area */}
           <div className="border-t border-border p-3 space-y-2 shrink-0">
-            <p className="text-sm font-medium">Ask a question about the scene</p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Ask a question about the scene</p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={mode === "sequence" ? "default" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => toggleMode("sequence")}
+                  disabled={isBusy}
+                  title="Capture a frame sequence to ask about motion and change"
+                >
+                  <Film className="h-3 w-3" /> Sequence
+                </Button>
+                <Button
+                  variant={mode === "cameras" ? "default" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => toggleMode("cameras")}
+                  disabled={isBusy}
+                  title="Ask the same question across several cameras"
+                >
+                  <LayoutGrid className="h-3 w-3" /> Cameras
+                </Button>
+                <Button
+                  variant={mode === "structured" ? "default" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => toggleMode("structured")}
+                  disabled={isBusy}
+                  title="Get counts, a verdict and bounding boxes as structured data"
+                >
+                  <Braces className="h-3 w-3" /> Structured
+                </Button>
+                <Button
+                  variant={mode === "agent" ? "default" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => toggleMode("agent")}
+                  disabled={isBusy}
+                  title="Let the model look at other cameras, alerts, counts and past scenes before answering"
+                >
+                  <Bot className="h-3 w-3" /> Agent
+                </Button>
+                <Button
+                  variant={mode === "compare" ? "default" : "secondary"}
+                  size="sm"
+                  className="h-7 text-xs gap-1"
+                  onClick={() => toggleMode("compare")}
+                  disabled={isBusy}
+                  title="Compare the live frame with this camera's last frame in the conversation"
+                >
+                  <Columns2 className="h-3 w-3" /> Compare
+                </Button>
+                {profiles.length > 1 && profile && (
+                  <Select value={profile.id} onValueChange={setProfileId} disabled={isBusy}>
+                    <SelectTrigger
+                      className="w-auto max-w-[180px] bg-secondary h-7 text-xs"
+                      title={profile.description ?? "Analysis profile"}
+                    >
+                      <SelectValue placeholder="Profile" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profiles.map((p) => (
+                        <SelectItem key={p.id} value={p.id} className="text-xs">
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {models.length > 1 && model && (
+                  <Select value={model} onValueChange={setModel} disabled={isBusy}>
+                    <SelectTrigger className="w-auto max-w-[220px] bg-secondary h-7 text-xs">
+                      <SelectValue placeholder="Model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {models.map((m) => (
+                        <SelectItem key={m} value={m} className="text-xs">
+                          {m}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+            {mode === "sequence" && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>Capture the next</span>
+                <Select value={String(sequenceDuration)} onValueChange={(v) => setSequenceDuration(Number(v))} disabled={isBusy}>
+                  <SelectTrigger className="w-[72px] bg-secondary h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sequenceDurations.map((d) => (
+                      <SelectItem key={d} value={String(d)} className="text-xs">{d}s</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span>every</span>
+                <Select value={String(sequenceInterval)} onValueChange={(v) => setSequenceInterval(Number(v))} disabled={isBusy}>
+                  <SelectTrigger className="w-[64px] bg-secondary h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sequenceIntervals.map((i) => (
+                      <SelectItem key={i} value={String(i)} className="text-xs">{i}s</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {mode === "compare" && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                {earlierFrame ? (
+                  <>
+                    <img src={earlierFrame.imageBase64} alt="Earlier frame" className="h-8 w-auto rounded-sm" />
+                    <span>Comparing with the frame from {new Date(earlierFrame.capturedAt).toLocaleTimeString()}</span>
+                  </>
+                ) : (
+                  <span>Ask about this camera once to have a frame to compare with</span>
+                )}
+              </div>
+            )}
+            {mode !== "cameras" && (
+              <div className="flex items-center gap-1 flex-wrap text-xs text-muted-foreground">
+                <span className="mr-1">Context</span>
+                {contextSources.map(({ key, label }) => (
+                  <Button
+                    key={key}
+                    variant={contextOptions[key] ? "default" : "outline"}
+                    size="sm"
+                    className="h-6 text-xs px-2"
+                    onClick={() => setContextOptions((o) => ({ ...o, [key]: !o[key] }))}
+                    disabled={isBusy}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                {contextOptions.alerts && (
+                  <Select
+                    value={String(contextOptions.alertMinutes)}
+                    onValueChange={(v) => setContextOptions((o) => ({ ...o, alertMinutes: Number(v) }))}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="w-[88px] bg-secondary h-6 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {alertWindows.map((m) => (
+                        <SelectItem key={m} value={String(m)} className="text-xs">
+                          {m < 60 ? `${m} min` : `${m / 60} h`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+            {mode === "cameras" && (
+              <div className="flex gap-1 flex-wrap">
+                <Button
+                  variant={queryCameraIds.length === 0 ? "default" : "outline"}
+                  size="sm"
+                  className="h-6 text-xs px-2"
+                  onClick={() => setQueryCameraIds([])}
+                  disabled={isBusy}
+                >
+                  All ({Math.min(cameras.length, MAX_QUERY_CAMERAS)})
+                </Button>
+                {cameras.map((cam) => (
+                  <Button
+                    key={cam.id}
+                    variant={queryCameraIds.includes(cam.id) ? "default" : "outline"}
+                    size="sm"
+                    className="h-6 text-xs px-2"
+                    onClick={() => toggleQueryCamera(cam.id)}
+                    disabled={isBusy || (!queryCameraIds.includes(cam.id) && queryCameraIds.length >= MAX_QUERY_CAMERAS)}
+                  >
+                    {cam.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {captureStatus && (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                {captureStatus}
+              </p>
+            )}
             <div className="relative">
               <Textarea
                 placeholder="Example: what is happening in this scene?"
@@ -172,15 +633,27 @@ export default function LiveVideoQuery() {
                     handleSubmit();
                   }
                 }}
-                disabled={isQuerying || !snapshotBase64}
+                disabled={!canAsk}
               />
-              <span className="absolute bottom-2 right-3 text-xs text-muted-foreground/50 pointer-events-none flex items-center gap-1">
-                {isQuerying ? (
-                  <Loader2 className="h-3 w-3 animate-spin" />
-                ) : (
-                  <>↵ submit</>
-                )}
-              </span>
+              {isQuerying ? (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="absolute bottom-2 right-2 h-6 text-xs gap-1"
+                  onClick={cancelQuery}
+                  title="Stop the answer; what arrived so far is kept"
+                >
+                  <Square className="h-3 w-3" /> Stop
+                </Button>
+              ) : (
+                <span className="absolute bottom-2 right-3 text-xs text-muted-foreground/50 pointer-events-none flex items-center gap-1">
+                  {isBusy ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <>↵ submit</>
+                  )}
+                </span>
+              )}
             </div>
             {/* Quick prompts */}
             <div className="flex gap-2 flex-wrap">
@@ -190,8 +663,8 @@ export default function LiveVideoQuery() {
                   variant="secondary"
                   size="sm"
                   className="text-xs h-7"
-                  onClick={() => handleQuickPrompt(p)}
-                  disabled={isQuerying || !snapshotBase64}
+                  onClick={() => ask(p)}
+                  disabled={isBusy || !canAsk}
                 >
                   {p}
                 </Button>
@@ -203,51 +676,308 @@ export default function LiveVideoQuery() {
         {/* Right panel - History */}
         <div className="w-[400px] flex flex-col shrink-0 max-w-[45%]">
           <div className="px-4 py-2 border-b border-border flex items-center justify-between shrink-0">
-            <h2 className="text-sm font-semibold">History</h2>
-            {messages.length > 0 && (
-              <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={clearHistory}>
-                <Trash2 className="h-3 w-3" /> Clear
+            <h2 className="text-sm font-semibold truncate">
+              {sidePanel === "sessions"
+                ? "Sessions"
+                : sidePanel === "usage"
+                  ? "Usage"
+                  : sidePanel === "servers"
+                    ? "Servers"
+                    : sessions.find((s) => s.id === sessionId)?.title ?? "History"}
+            </h2>
+            <div className="flex items-center gap-1 shrink-0">
+              {messages.length > 0 && sidePanel === "history" && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs gap-1" onClick={clearHistory} disabled={isBusy}>
+                  <Plus className="h-3 w-3" /> New
+                </Button>
+              )}
+              <Button
+                variant={sidePanel === "sessions" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 text-xs gap-1"
+                onClick={() => setSidePanel((p) => (p === "sessions" ? "history" : "sessions"))}
+                disabled={isBusy}
+              >
+                <History className="h-3 w-3" /> Sessions
               </Button>
-            )}
+              <Button
+                variant={sidePanel === "usage" ? "secondary" : "ghost"}
+                size="icon"
+                className="h-7 w-7"
+                title="Usage"
+                onClick={() => setSidePanel((p) => (p === "usage" ? "history" : "usage"))}
+              >
+                <Gauge className="h-3 w-3" />
+              </Button>
+              {isAdmin && (
+                <Button
+                  variant={sidePanel === "servers" ? "secondary" : "ghost"}
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Manage servers"
+                  onClick={() => setSidePanel((p) => (p === "servers" ? "history" : "servers"))}
+                >
+                  <Server className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
           </div>
 
-          <ScrollArea className="flex-1">
-            <div className="p-3 space-y-3">
-              {messages.length === 0 && !streamingContent && (
-                <div className="text-center text-muted-foreground py-12">
-                  <MessageSquare className="h-10 w-10 mx-auto mb-3 opacity-20" />
-                  <p className="text-sm">Ask a question to get started</p>
-                </div>
-              )}
+          {sidePanel === "servers" ? (
+            <ScrollArea className="flex-1">
+              <div className="p-3">
+                <ServerAdminPanel />
+              </div>
+            </ScrollArea>
+          ) : sidePanel === "usage" ? (
+            <ScrollArea className="flex-1">
+              <div className="p-3">
+                <UsagePanel cameraNames={cameraNames} />
+              </div>
+            </ScrollArea>
+          ) : sidePanel === "sessions" ? (
+            <ScrollArea className="flex-1">
+              <div className="p-2">
+                <SessionList
+                  sessions={sessions}
+                  activeId={sessionId}
+                  onOpen={(id) => {
+                    setSidePanel("history");
+                    openSession(id);
+                  }}
+                  onRename={renameSession}
+                  onDelete={deleteSession}
+                />
+              </div>
+            </ScrollArea>
+          ) : (
+            <ScrollArea className="flex-1">
+              <div className="p-3 space-y-3">
+                {messages.length === 0 && !streamingContent && !streamingCameraAnswers && !streamingStatus && !streamingSteps && (
+                  <div className="text-center text-muted-foreground py-12">
+                    <MessageSquare className="h-10 w-10 mx-auto mb-3 opacity-20" />
+                    <p className="text-sm">Ask a question to get started</p>
+                  </div>
+                )}
 
-              {messages.map((msg, i) => (
-                <ChatBubble key={i} message={msg} />
-              ))}
+                {messages.map((msg, i) => {
+                  // Only the latest exchange can be asked again
+                  const isLast = i === messages.length - 1 && !isBusy;
+                  return (
+                    <ChatBubble
+                      key={i}
+                      message={msg}
+                      onRetry={isLast && msg.failed ? () => retry(msg) : undefined}
+                      onRegenerate={isLast && msg.role === "assistant" ? () => regenerate(msg) : undefined}
+                    />
+                  );
+                })}
 
-              {/* Streaming response */}
-              {streamingContent && (
-                <div className="bg-card border border-border rounded-lg p-3">
-                  <p className="text-sm whitespace-pre-wrap">{streamingContent}</p>
-                  <Loader2 className="h-3 w-3 animate-spin mt-1 text-muted-foreground" />
-                </div>
-              )}
+                {/* Streaming response */}
+                {streamingCameraAnswers && (
+                  <div className="bg-card border border-border rounded-lg p-3 space-y-3">
+                    <CameraAnswers answers={streamingCameraAnswers} />
+                    {streamingContent && <p className="text-sm whitespace-pre-wrap border-t border-border pt-2">{streamingContent}</p>}
+                    <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {streamingStatus && (
+                  <div className="bg-card border border-border rounded-lg p-3 flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {streamingStatus}…
+                  </div>
+                )}
+                {streamingSteps && (
+                  <div className="bg-card border border-border rounded-lg p-3 space-y-2">
+                    <AgentSteps steps={streamingSteps} />
+                    {streamingContent && <p className="text-sm whitespace-pre-wrap">{streamingContent}</p>}
+                    <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {streamingContent && !streamingCameraAnswers && !streamingSteps && (
+                  <div className="bg-card border border-border rounded-lg p-3">
+                    <p className="text-sm whitespace-pre-wrap">{streamingContent}</p>
+                    <Loader2 className="h-3 w-3 animate-spin mt-1 text-muted-foreground" />
+                  </div>
+                )}
 
-              <div ref={historyEndRef} />
-            </div>
-          </ScrollArea>
+                <div ref={historyEndRef} />
+              </div>
+            </ScrollArea>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-function ChatBubble({ message }: { message: ChatMessage }) {
+function Filmstrip({ frames }: { frames: TimedFrame[] }) {
+  const start = Date.parse(frames[0].capturedAt);
+  return (
+    <div className="flex gap-1 overflow-x-auto p-1 bg-muted/40">
+      {frames.map((frame) => (
+        <figure key={frame.capturedAt} className="shrink-0">
+          <img src={frame.imageBase64} alt={`Frame at ${frame.capturedAt}`} className="h-14 w-auto rounded-sm" />
+          <figcaption className="text-[10px] text-muted-foreground text-center">
+            +{((Date.parse(frame.capturedAt) - start) / 1000).toFixed(0)}s
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
+
+function FrameComparison({ earlier, now }: { earlier: TimedFrame[]; now: TimedFrame }) {
+  const frames = [
+    ...earlier.map((frame) => ({ ...frame, label: "Earlier" })),
+    { ...now, label: "Now" },
+  ];
+  return (
+    <div className="grid grid-cols-2 gap-1 p-1 bg-muted/40">
+      {frames.map((frame) => (
+        <figure key={`${frame.label}-${frame.capturedAt}`}>
+          <img src={frame.imageBase64} alt={`${frame.label} frame`} className="w-full h-auto rounded-sm" />
+          <figcaption className="text-[10px] text-muted-foreground text-center">
+            {frame.label} · {new Date(frame.capturedAt).toLocaleTimeString()}
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
+
+function CameraAnswers({ answers }: { answers: CameraAnswer[] }) {
+  return (
+    <div className="space-y-2">
+      {answers.map((answer) => (
+        <div key={answer.cameraId} className="flex gap-2">
+          {answer.imageBase64 && (
+            <img src={answer.imageBase64} alt={answer.name} className="h-12 w-auto rounded-sm shrink-0" />
+          )}
+          <div className="min-w-0">
+            <p className="text-xs font-semibold">{answer.name}</p>
+            {answer.error ? (
+              <p className="text-xs text-destructive">{answer.error}</p>
+            ) : (
+              <p className="text-sm whitespace-pre-wrap">{answer.content}</p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const toolLabels: Record<string, string> = {
+  list_cameras: "List cameras",
+  get_snapshot: "Live snapshot",
+  get_alerts: "Alerts",
+  get_counting: "Counts",
+  search_scenes: "Scene search",
+};
+
+function AgentSteps({ steps }: { steps: AgentStep[] }) {
+  if (steps.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      {steps.map((step) => {
+        const args = Object.entries(step.arguments);
+        return (
+          <details key={step.id} className="text-xs bg-muted/40 rounded px-2 py-1">
+            <summary className="cursor-pointer flex items-center gap-2">
+              <span className="font-semibold">{toolLabels[step.name] ?? step.name}</span>
+              {!step.result ? (
+                <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+              ) : step.result.error ? (
+                <span className="text-destructive truncate">{describeError(new VaidioError(step.result.error))}</span>
+              ) : (
+                <span className="text-muted-foreground truncate">{step.result.summary}</span>
+              )}
+            </summary>
+            <div className="mt-1 space-y-1">
+              {args.length > 0 && (
+                <pre className="whitespace-pre-wrap break-all text-[10px] text-muted-foreground">
+                  {args.map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join("\n")}
+                </pre>
+              )}
+              {step.result?.imageBase64 && (
+                <img src={step.result.imageBase64} alt={step.result.summary} className="h-20 w-auto rounded-sm" />
+              )}
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+}
+
+const verdictStyles: Record<StructuredAnswer["verdict"], string> = {
+  yes: "bg-green-500/15 text-green-600",
+  no: "bg-destructive/15 text-destructive",
+  unknown: "bg-muted text-muted-foreground",
+};
+
+function StructuredAnswerCard({ answer }: { answer: StructuredAnswer }) {
+  const counts = Object.entries(answer.counts);
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className={`text-xs font-semibold uppercase px-1.5 py-0.5 rounded ${verdictStyles[answer.verdict]}`}>
+          {answer.verdict}
+        </span>
+        <span className="text-xs text-muted-foreground">{Math.round(answer.confidence * 100)}% confidence</span>
+      </div>
+      <p className="text-sm whitespace-pre-wrap">{answer.answer}</p>
+      {counts.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {counts.map(([label, count]) => (
+            <span key={label} className="text-xs bg-secondary px-1.5 py-0.5 rounded">
+              {label}: {count}
+            </span>
+          ))}
+        </div>
+      )}
+      {answer.objects.length > 0 && (
+        <p className="text-xs text-muted-foreground">{answer.objects.length} objects located</p>
+      )}
+    </div>
+  );
+}
+
+function ChatBubble({
+  message,
+  onRetry,
+  onRegenerate,
+}: {
+  message: ChatMessage;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+}) {
   const isUser = message.role === "user";
 
   if (isUser) {
     return (
       <div className="flex flex-col items-end gap-1">
-        {message.imageBase64 && (
+        {message.frames && message.frames.length > 0 && (
+          <div className="w-full max-w-[320px] rounded-lg overflow-hidden border-2 border-primary/40">
+            <Filmstrip frames={message.frames} />
+            <div className="bg-primary text-primary-foreground px-3 py-1.5 text-sm">
+              {message.content}
+            </div>
+          </div>
+        )}
+        {message.imageBase64 && message.earlierFrames && (
+          <div className="w-full max-w-[360px] rounded-lg overflow-hidden border-2 border-primary/40">
+            <FrameComparison
+              earlier={message.earlierFrames}
+              now={{ imageBase64: message.imageBase64, capturedAt: message.timestamp.toISOString() }}
+            />
+            <div className="bg-primary text-primary-foreground px-3 py-1.5 text-sm">
+              {message.content}
+            </div>
+          </div>
+        )}
+        {message.imageBase64 && !message.earlierFrames && (
           <div className="w-full max-w-[240px] rounded-lg overflow-hidden border-2 border-primary/40">
             <img
               src={message.imageBase64}
@@ -259,11 +989,66 @@ function ChatBubble({ message }: { message: ChatMessage }) {
             </div>
           </div>
         )}
-        {!message.imageBase64 && (
+        {!message.imageBase64 && !message.frames?.length && (
           <div className="bg-primary text-primary-foreground rounded-lg px-3 py-2 text-sm max-w-[90%]">
             {message.content}
           </div>
         )}
+        {message.snapshotsPurged && (
+          <span className="text-[10px] text-muted-foreground">Snapshot removed by the retention policy</span>
+        )}
+        {message.failed && (
+          <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+            No answer
+            {onRetry && (
+              <Button variant="ghost" size="sm" className="h-5 px-1 text-[10px] gap-1" onClick={onRetry}>
+                <RotateCcw className="h-3 w-3" /> Retry
+              </Button>
+            )}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <AnswerBody message={message} />
+      {(message.interrupted || onRegenerate) && (
+        <div className="flex items-center gap-1 text-[10px] text-muted-foreground">
+          {message.interrupted && <span>Interrupted</span>}
+          {onRegenerate && (
+            <Button variant="ghost" size="sm" className="h-5 px-1 text-[10px] gap-1" onClick={onRegenerate}>
+              <RotateCcw className="h-3 w-3" /> Regenerate
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AnswerBody({ message }: { message: ChatMessage }) {
+  if (message.structured) {
+    return <StructuredAnswerCard answer={message.structured} />;
+  }
+
+  if (message.cameraAnswers) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-3 space-y-3">
+        <CameraAnswers answers={message.cameraAnswers} />
+        {message.content && (
+          <p className="text-sm whitespace-pre-wrap border-t border-border pt-2">{message.content}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (message.steps) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-3 space-y-2">
+        <AgentSteps steps={message.steps} />
+        {message.content && <p className="text-sm whitespace-pre-wrap">{message.content}</p>}
       </div>
     );
   }
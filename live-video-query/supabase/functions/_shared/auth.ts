@@ -0,0 +1,146 @@
+import { createServiceClient } from "./supabase.ts";
+import { ApiError } from "./errors.ts";
+
+export type VaidioRole = 'viewer' | 'operator' | 'admin';
+
+const ROLE_RANK: Record<VaidioRole, number> = { viewer: 0, operator: 1, admin: 2 };
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value);
+}
+
+export interface AuthenticatedUser {
+  id: string;
+  email?: string;
+}
+
+export interface ServerAccess {
+  /** `null` when the request targets the env-configured fallback server */
+  serverId: string | null;
+  role: VaidioRole;
+  /** `null` means every camera on the server */
+  cameraIds: number[] | null;
+}
+
+export class AuthError extends ApiError {
+  constructor(message: string, code: 'unauthenticated' | 'forbidden' | 'invalid_input' = 'unauthenticated') {
+    super(code, message);
+    this.name = 'AuthError';
+  }
+}
+
+/** Verify the caller's Supabase JWT. The public anon key is not a user session and is rejected. */
+export async function authenticate(req: Request): Promise<AuthenticatedUser> {
+  const header = req.headers.get('Authorization') ?? '';
+  const jwt = header.replace(/^Bearer\s+/i, '').trim();
+  if (!jwt) throw new AuthError('Missing authorization');
+
+  const { data, error } = await createServiceClient().auth.getUser(jwt);
+  if (error || !data?.user) throw new AuthError('Invalid or expired session');
+
+  return { id: data.user.id, email: data.user.email };
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+/**
+ * Whether the request carries the service role key, for operator-only
+ * functions. Digests are compared in constant time so response timing says
+ * nothing about the key.
+ */
+export async function isServiceRoleRequest(req: Request): Promise<boolean> {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey) return false;
+
+  const bearer = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+  const [given, expected] = await Promise.all([sha256(bearer), sha256(serviceKey)]);
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= given[i] ^ expected[i];
+  return diff === 0;
+}
+
+async function resolveDefaultServerId(): Promise<string | null> {
+  const { data } = await createServiceClient()
+    .from('vaidio_servers')
+    .select('id')
+    .eq('is_default', true)
+    .eq('is_active', true)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+// A deactivated server is treated as gone, whatever the caller's grant
+async function assertServerActive(serverId: string): Promise<void> {
+  const { data, error } = await createServiceClient()
+    .from('vaidio_servers')
+    .select('id')
+    .eq('id', serverId)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (error) throw new Error('Failed to load server');
+  if (!data) throw new ApiError('not_found', 'Server not found');
+}
+
+/**
+ * Look up the caller's access to a server in `vaidio_server_access`.
+ * A row with a NULL server_id grants access to every server; a row for the
+ * specific server takes precedence over it. Only active servers can be used.
+ */
+export async function authorizeServer(userId: string, serverId?: string): Promise<ServerAccess> {
+  if (serverId !== undefined && !isUuid(serverId)) {
+    throw new AuthError('Invalid server id', 'invalid_input');
+  }
+  const targetId = serverId ?? await resolveDefaultServerId();
+
+  let query = createServiceClient()
+    .from('vaidio_server_access')
+    .select('server_id, role, camera_ids')
+    .eq('user_id', userId);
+  query = targetId
+    ? query.or(`server_id.eq.${targetId},server_id.is.null`)
+    : query.is('server_id', null);
+
+  const { data, error } = await query;
+  if (error) throw new Error('Failed to load server access');
+
+  const rows = (data ?? []) as Array<{ server_id: string | null; role: VaidioRole; camera_ids: number[] | null }>;
+  const row = rows.find((r) => r.server_id === targetId) ?? rows.find((r) => r.server_id === null);
+  if (!row || !(row.role in ROLE_RANK)) throw new AuthError('No access to this Vaidio server', 'forbidden');
+  if (serverId !== undefined) await assertServerActive(serverId);
+
+  return { serverId: targetId, role: row.role, cameraIds: row.camera_ids };
+}
+
+/**
+ * Server administrators hold a global (NULL server_id) `admin` grant, the
+ * same rule as the `is_vaidio_admin()` database function.
+ */
+export async function assertVaidioAdmin(userId: string): Promise<void> {
+  const { data, error } = await createServiceClient()
+    .from('vaidio_server_access')
+    .select('id')
+    .eq('user_id', userId)
+    .is('server_id', null)
+    .eq('role', 'admin')
+    .maybeSingle();
+  if (error) throw new Error('Failed to load server access');
+  if (!data) throw new AuthError('Managing servers requires admin access', 'forbidden');
+}
+
+export function hasRole(access: ServerAccess, minimum: VaidioRole): boolean {
+  return ROLE_RANK[access.role] >= ROLE_RANK[minimum];
+}
+
+export function canAccessCamera(access: ServerAccess, cameraId: number): boolean {
+  return access.cameraIds === null || access.cameraIds.includes(cameraId);
+}
+
+export function assertCameraAccess(access: ServerAccess, cameraId: number): void {
+  if (!canAccessCamera(access, cameraId)) {
+    throw new AuthError(`No access to camera ${cameraId}`, 'forbidden');
+  }
+}
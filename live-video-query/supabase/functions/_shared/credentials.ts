@@ -0,0 +1,107 @@
+/**
+ * At-rest encryption for Vaidio server passwords.
+ *
+ * Values are stored as `enc:v1:<keyId>:<iv>:<ciphertext>` (base64 parts),
+ * encrypted with AES-256-GCM under the VAIDIO_CREDENTIALS_KEY secret. During
+ * a key rotation the old key goes in VAIDIO_CREDENTIALS_KEY_PREVIOUS so
+ * existing values still decrypt until they are re-encrypted.
+ */
+
+import { base64ToBytes, bytesToBase64 } from './base64.ts';
+
+const PREFIX = 'enc:v1:';
+
+interface CredentialKey {
+  id: string;
+  key: CryptoKey;
+}
+
+async function importKey(secretName: string): Promise<CredentialKey | null> {
+  const raw = Deno.env.get(secretName);
+  if (!raw) return null;
+
+  const bytes = base64ToBytes(raw.trim());
+  if (bytes.length !== 32) {
+    throw new Error(`${secretName} must be a base64-encoded 32-byte key`);
+  }
+
+  // Short fingerprint so ciphertexts record which key produced them
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  const id = Array.from(digest.subarray(0, 4), (b) => b.toString(16).padStart(2, '0')).join('');
+  const key = await crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { id, key };
+}
+
+let keysPromise: Promise<{ current: CredentialKey | null; previous: CredentialKey | null }> | null = null;
+
+function loadKeys() {
+  keysPromise ??= Promise.all([
+    importKey('VAIDIO_CREDENTIALS_KEY'),
+    importKey('VAIDIO_CREDENTIALS_KEY_PREVIOUS'),
+  ])
+    .then(([current, previous]) => ({ current, previous }))
+    .catch((error) => {
+      // Don't cache a failure: the next call reads the secrets again
+      keysPromise = null;
+      throw error;
+    });
+  return keysPromise;
+}
+
+export function isEncryptedSecret(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const { current } = await loadKeys();
+  if (!current) throw new Error('VAIDIO_CREDENTIALS_KEY is not configured');
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    current.key,
+    new TextEncoder().encode(plaintext),
+  );
+  return `${PREFIX}${current.id}:${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptSecret(value: string): Promise<string> {
+  if (!isEncryptedSecret(value)) throw new Error('Credential is not encrypted');
+
+  const [keyId, iv, ciphertext] = value.slice(PREFIX.length).split(':');
+  const { current, previous } = await loadKeys();
+  const match = [current, previous].find((k) => k?.id === keyId);
+  if (!match) throw new Error('No credentials key available for stored password');
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      match.key,
+      base64ToBytes(ciphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // Never echo the stored value
+    throw new Error('Failed to decrypt stored password');
+  }
+}
+
+/** True when the value is missing, plaintext, or encrypted under a key other than the current one. */
+export async function needsReencryption(value: string | null | undefined): Promise<boolean> {
+  if (!isEncryptedSecret(value)) return true;
+  const { current } = await loadKeys();
+  return !current || !value.startsWith(`${PREFIX}${current.id}:`);
+}
+
+/**
+ * Scrub anything credential-shaped from a message before it is logged or
+ * returned to a client.
+ */
+export function redactSecrets(message: string): string {
+  return message
+    .replace(/(password|access_token|refresh_token)=[^&\s]*/gi, '$1=[redacted]')
+    .replace(/("(?:password|access_token|refresh_token)"\s*:\s*)"[^"]*"/gi, '$1"[redacted]"')
+    .replace(/\/\/[^/\s:@]+:[^/\s@]+@/g, '//[redacted]@')
+    .replace(/Bearer\s+[A-Za-z0-9._~+/=-]+/g, 'Bearer [redacted]')
+    .replace(/enc:v1:[A-Za-z0-9+/=:]+/g, '[redacted]');
+}
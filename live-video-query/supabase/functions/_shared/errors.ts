@@ -0,0 +1,128 @@
+/**
+ * Error model shared by the edge functions and the browser client
+ * (`src/lib/errors.ts` imports the types from here). Keep this file free of
+ * Deno APIs so both sides can compile it.
+ */
+
+export type ErrorCode =
+  | 'invalid_input'
+  | 'invalid_image'
+  | 'payload_too_large'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'forbidden_endpoint'
+  | 'not_found'
+  | 'server_not_configured'
+  | 'auth_failed'
+  | 'upstream_unreachable'
+  | 'upstream_timeout'
+  | 'upstream_http_error'
+  | 'rate_limited'
+  | 'payment_required'
+  | 'quota_exceeded'
+  | 'network_error'
+  | 'internal_error';
+
+/** JSON body of every error response from the edge functions. */
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  /** Suggested wait before retrying, when known */
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+}
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  invalid_input: 400,
+  invalid_image: 400,
+  payload_too_large: 413,
+  unauthenticated: 401,
+  forbidden: 403,
+  forbidden_endpoint: 403,
+  not_found: 404,
+  server_not_configured: 500,
+  auth_failed: 502,
+  upstream_unreachable: 502,
+  upstream_timeout: 504,
+  upstream_http_error: 502,
+  rate_limited: 429,
+  payment_required: 402,
+  quota_exceeded: 429,
+  network_error: 503,
+  internal_error: 500,
+};
+
+/** Whether retrying the same request later can succeed without changing anything. */
+export const RETRYABLE_ERROR_CODES: ReadonlySet<ErrorCode> = new Set<ErrorCode>([
+  'upstream_unreachable',
+  'upstream_timeout',
+  'rate_limited',
+  'network_error',
+]);
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && value in ERROR_STATUS;
+}
+
+export class ApiError extends Error {
+  code: ErrorCode;
+  status: number;
+  retryable: boolean;
+  retryAfterMs?: number;
+  details?: Record<string, unknown>;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options: { status?: number; retryable?: boolean; retryAfterMs?: number; details?: Record<string, unknown> } = {},
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = options.status ?? ERROR_STATUS[code];
+    this.retryable = options.retryable ?? RETRYABLE_ERROR_CODES.has(code);
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+
+  toBody(): ErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.retryAfterMs !== undefined ? { retryAfterMs: this.retryAfterMs } : {}),
+      ...(this.details ? { details: this.details } : {}),
+    };
+  }
+}
+
+/** Parse a `Retry-After` header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+}
+
+export function errorResponse(error: ApiError, headers: Record<string, string>): Response {
+  return new Response(JSON.stringify(error.toBody()), {
+    status: error.status,
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Parse a JSON object request body, reporting anything else as `invalid_input`. */
+export async function readJsonBody(req: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ApiError('invalid_input', 'Request body must be valid JSON');
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ApiError('invalid_input', 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,56 @@
+/**
+ * Typed events streamed by query-scene for answers with more than one part
+ * (e.g. one section per camera). Each SSE `data:` line carries one event as
+ * JSON. Shared with the browser client like `errors.ts`, so keep it free of
+ * Deno APIs.
+ */
+
+import type { ErrorBody } from './errors.ts';
+
+/** An object located in the image. */
+export interface DetectedObject {
+  label: string;
+  /** Normalized `[x, y, width, height]` (0–1) with the origin at the top left */
+  box: [number, number, number, number];
+  confidence?: number;
+}
+
+/** Schema-validated answer returned in structured mode. */
+export interface StructuredAnswer {
+  /** Short free-text answer to the question */
+  answer: string;
+  /** Yes/no verdict for yes/no questions, otherwise `unknown` */
+  verdict: 'yes' | 'no' | 'unknown';
+  /** Confidence in the verdict, 0–1 */
+  confidence: number;
+  /** Object counts by label */
+  counts: Record<string, number>;
+  objects: DetectedObject[];
+}
+
+/** Outcome of one tool call in agent mode. */
+export interface ToolResult {
+  /** Short description of what the tool returned, for the step list */
+  summary: string;
+  /** Snapshot the tool fetched, as a data URL */
+  imageBase64?: string;
+  error?: ErrorBody;
+}
+
+export type SceneEvent =
+  | { type: 'camera_start'; cameraId: number; name: string }
+  | { type: 'camera_delta'; cameraId: number; content: string }
+  | { type: 'camera_done'; cameraId: number }
+  | { type: 'camera_error'; cameraId: number; error: ErrorBody }
+  | { type: 'summary_delta'; content: string }
+  | { type: 'status'; message: string }
+  | { type: 'structured'; result: StructuredAnswer }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; result: ToolResult }
+  | { type: 'done' }
+  | { type: 'error'; error: ErrorBody };
+
+export function encodeSceneEvent(event: SceneEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
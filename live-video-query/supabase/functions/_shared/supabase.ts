@@ -0,0 +1,8 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Service-role client for server-side lookups. Never expose its results unfiltered. */
+export function createServiceClient() {
+  const sbUrl = Deno.env.get('SUPABASE_URL')!;
+  const sbKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  return createClient(sbUrl, sbKey);
+}
@@ -0,0 +1,255 @@
+import { assertVaidioAdmin, authenticate, isUuid } from "../_shared/auth.ts";
+import { decryptSecret, encryptSecret, isEncryptedSecret, redactSecrets } from "../_shared/credentials.ts";
+import { ApiError, errorResponse, readJsonBody } from "../_shared/errors.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { type DiagnosticsReport, runDiagnostics } from "../vaidio-proxy/diagnostics.ts";
+import { DEFAULT_ENDPOINT_POLICY } from "../vaidio-proxy/policy.ts";
+import { normalizeBaseUrl } from "../vaidio-proxy/upstream.ts";
+
+/**
+ * Admin CRUD for `vaidio_servers`. Passwords are write-only: they arrive here,
+ * are encrypted with `encryptSecret` and are never returned; the browser only
+ * learns whether one is stored. Credentials are tested with a live sign-in
+ * and camera list before they are saved.
+ *
+ * Actions: list, test, save, setDefault, setActive.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const SERVER_COLUMNS = 'id, name, url, username, is_default, is_active, password, password_encrypted';
+const MAX_NAME_LENGTH = 80;
+
+interface ServerRow {
+  id: string;
+  name: string | null;
+  url: string;
+  username: string;
+  is_default: boolean | null;
+  is_active: boolean | null;
+  password: string | null;
+  password_encrypted: string | null;
+}
+
+/** What the browser sees of a server */
+interface ManagedServer {
+  id: string;
+  name: string;
+  url: string;
+  username: string;
+  isDefault: boolean;
+  isActive: boolean;
+  hasPassword: boolean;
+}
+
+interface ServerInput {
+  name: string;
+  url: string;
+  username: string;
+  /** Omitted when an edit keeps the URL, username and stored password */
+  password?: string;
+}
+
+function toManagedServer(row: ServerRow): ManagedServer {
+  return {
+    id: row.id,
+    name: row.name ?? '',
+    url: row.url,
+    username: row.username,
+    isDefault: row.is_default === true,
+    isActive: row.is_active === true,
+    hasPassword: Boolean(row.password_encrypted || row.password),
+  };
+}
+
+async function listServers(): Promise<ManagedServer[]> {
+  const { data, error } = await createServiceClient()
+    .from('vaidio_servers')
+    .select(SERVER_COLUMNS)
+    .order('name');
+  if (error) throw new Error('Failed to load servers');
+  return (data as ServerRow[]).map(toManagedServer);
+}
+
+async function loadServer(id: unknown): Promise<ServerRow> {
+  if (!isUuid(id)) throw new ApiError('invalid_input', 'Invalid server id');
+  const { data, error } = await createServiceClient()
+    .from('vaidio_servers')
+    .select(SERVER_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw new Error('Failed to load server');
+  if (!data) throw new ApiError('not_found', 'Server not found');
+  return data as ServerRow;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function parseServerInput(body: Record<string, unknown>, existing: ServerRow | null): ServerInput {
+  const { name, url, username, password } = body;
+  if (typeof name !== 'string' || !name.trim()) throw new ApiError('invalid_input', 'name is required');
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new ApiError('invalid_input', `name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  if (typeof url !== 'string' || !isHttpUrl(url.trim())) throw new ApiError('invalid_input', 'url must be an http(s) URL');
+  if (typeof username !== 'string' || !username.trim()) throw new ApiError('invalid_input', 'username is required');
+  if (password !== undefined && password !== null && typeof password !== 'string') {
+    throw new ApiError('invalid_input', 'password must be a string');
+  }
+  if (!password && !existing) throw new ApiError('invalid_input', 'password is required for a new server');
+
+  const input: ServerInput = {
+    name: name.trim(),
+    url: normalizeBaseUrl(url.trim()),
+    username: username.trim(),
+    ...(password ? { password } : {}),
+  };
+  // The stored password is only ever sent to the host and user it was saved for
+  if (!input.password && existing && !sameSignIn(input, existing)) {
+    throw new ApiError('invalid_input', 'Enter the password to change the URL or username');
+  }
+  return input;
+}
+
+function sameSignIn(input: ServerInput, row: ServerRow): boolean {
+  return input.url === normalizeBaseUrl(row.url) && input.username === row.username;
+}
+
+async function storedPassword(row: ServerRow): Promise<string> {
+  if (isEncryptedSecret(row.password_encrypted)) return decryptSecret(row.password_encrypted);
+  if (row.password) return row.password;
+  throw new ApiError('invalid_input', 'The server has no stored password; enter one');
+}
+
+/** Sign in and list cameras with the given credentials, as the proxy would. */
+function testCredentials(input: ServerInput, password: string): Promise<DiagnosticsReport> {
+  return runDiagnostics({
+    url: input.url,
+    username: input.username,
+    getPassword: async () => password,
+    policy: DEFAULT_ENDPOINT_POLICY,
+  });
+}
+
+/**
+ * Validate a test or save request and run the test. An edited server without
+ * a new password is tested with its stored one, which `parseServerInput` only
+ * allows while the URL and username are unchanged.
+ */
+async function testRequest(body: Record<string, unknown>) {
+  const existing = body.id !== undefined ? await loadServer(body.id) : null;
+  const input = parseServerInput(body, existing);
+  const report = await testCredentials(input, input.password ?? await storedPassword(existing!));
+  return { existing, input, report, failure: testFailure(report) };
+}
+
+/** Why a test failed, as the error a save reports; null when it passed. */
+function testFailure(report: DiagnosticsReport): ApiError | null {
+  if (!report.selectedBaseUrl) {
+    // The configured URL's result says more than the fallback's
+    const auth = report.candidates[0]?.auth;
+    const code = auth?.errorKind === 'auth'
+      ? 'auth_failed'
+      : auth?.errorKind === 'timeout' ? 'upstream_timeout' : 'upstream_unreachable';
+    return new ApiError(code, auth?.detail ?? 'Could not sign in to the Vaidio server', {
+      retryable: false,
+      details: { report },
+    });
+  }
+  const cameras = report.endpoints?.cameras;
+  if (!cameras?.ok || cameras.count === undefined) {
+    const reason = cameras?.detail ? `: ${cameras.detail}` : '';
+    return new ApiError('upstream_http_error', `Signed in, but listing cameras failed${reason}`, {
+      retryable: false,
+      details: { report },
+    });
+  }
+  return null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown) =>
+    new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  try {
+    const user = await authenticate(req);
+    await assertVaidioAdmin(user.id);
+    const body = await readJsonBody(req);
+    const { action } = body;
+    const sb = createServiceClient();
+
+    switch (action) {
+      case 'list':
+        return json({ servers: await listServers() });
+
+      case 'test': {
+        const { report, failure } = await testRequest(body);
+        return json({ ok: !failure, ...(failure ? { error: failure.message } : {}), report });
+      }
+
+      // Test, then create or update; nothing is written if the test fails
+      case 'save': {
+        const { existing, input, report, failure } = await testRequest(body);
+        if (failure) throw failure;
+
+        const fields = {
+          name: input.name,
+          url: input.url,
+          username: input.username,
+          ...(input.password ? { password_encrypted: await encryptSecret(input.password), password: null } : {}),
+        };
+        const { error } = existing
+          ? await sb.from('vaidio_servers').update(fields).eq('id', existing.id)
+          : await sb.from('vaidio_servers').insert({ ...fields, is_active: true, is_default: false });
+        if (error) throw new Error('Failed to save server');
+
+        console.log(`[manage-vaidio-servers] ${existing ? 'Updated' : 'Added'} ${input.url} (${user.email ?? user.id})`);
+        return json({ servers: await listServers(), report });
+      }
+
+      case 'setDefault': {
+        const server = await loadServer(body.id);
+        if (!server.is_active) throw new ApiError('invalid_input', 'Activate the server before making it the default');
+        const { error } = await sb.rpc('set_default_vaidio_server', { p_id: server.id });
+        if (error) throw new Error('Failed to set the default server');
+        return json({ servers: await listServers() });
+      }
+
+      case 'setActive': {
+        const server = await loadServer(body.id);
+        if (typeof body.active !== 'boolean') throw new ApiError('invalid_input', 'active must be a boolean');
+        if (!body.active && server.is_default) {
+          throw new ApiError('invalid_input', 'Make another server the default before deactivating this one');
+        }
+        const { error } = await sb.from('vaidio_servers').update({ is_active: body.active }).eq('id', server.id);
+        if (error) throw new Error('Failed to update server');
+        return json({ servers: await listServers() });
+      }
+
+      default:
+        throw new ApiError('invalid_input', 'Unknown action');
+    }
+  } catch (error) {
+    const apiError = error instanceof ApiError
+      ? error
+      : new ApiError('internal_error', error instanceof Error ? redactSecrets(error.message) : 'Unknown error');
+    if (apiError.status >= 500 && !apiError.details) {
+      console.error(`Error in manage-vaidio-servers (${apiError.code}):`, apiError.message);
+    }
+    return errorResponse(apiError, corsHeaders);
+  }
+});
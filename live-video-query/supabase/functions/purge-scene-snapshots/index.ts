@@ -0,0 +1,83 @@
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+/**
+ * Deletes the stored snapshots of saved scene messages older than
+ * SNAPSHOT_RETENTION_DAYS (default 30; 0 keeps them forever). Message text is
+ * kept; purged rows get `snapshots_purged_at` so the app can say why the
+ * image is gone.
+ *
+ * Meant to run on a schedule, so it only accepts the service role key:
+ *   curl -X POST -H "Authorization: Bearer $SERVICE_ROLE_KEY" \
+ *     https://<project>.supabase.co/functions/v1/purge-scene-snapshots
+ */
+
+const BUCKET = 'scene-snapshots';
+// Rows handled per round trip; Storage removes at most 1000 objects per call
+const BATCH_SIZE = 200;
+const MAX_BATCHES = 50;
+
+function retentionDays(): number {
+  const raw = Deno.env.get('SNAPSHOT_RETENTION_DAYS');
+  const days = Number(raw);
+  return raw && Number.isFinite(days) && days >= 0 ? days : 30;
+}
+
+Deno.serve(async (req) => {
+  const jsonHeaders = { 'Content-Type': 'application/json' };
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: jsonHeaders });
+  }
+
+  if (!(await isServiceRoleRequest(req))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), { status: 403, headers: jsonHeaders });
+  }
+
+  const days = retentionDays();
+  if (days === 0) {
+    return new Response(JSON.stringify({ retentionDays: 0, messages: 0, files: 0 }), { status: 200, headers: jsonHeaders });
+  }
+
+  try {
+    const sb = createServiceClient();
+    const cutoff = new Date(Date.now() - days * 86_400_000).toISOString();
+    const summary = { retentionDays: days, messages: 0, files: 0 };
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data, error } = await sb
+        .from('scene_messages')
+        .select('id, snapshots')
+        .is('snapshots_purged_at', null)
+        .lt('created_at', cutoff)
+        .limit(BATCH_SIZE);
+      if (error) throw new Error(`Failed to load messages: ${error.message}`);
+      if (!data?.length) break;
+
+      const paths = data.flatMap((row) =>
+        Array.isArray(row.snapshots) ? row.snapshots.map((s: { path?: string }) => s.path).filter(Boolean) : []
+      ) as string[];
+      for (let i = 0; i < paths.length; i += 1000) {
+        const { error: removeError } = await sb.storage.from(BUCKET).remove(paths.slice(i, i + 1000));
+        if (removeError) throw new Error(`Failed to remove snapshots: ${removeError.message}`);
+      }
+
+      const { error: updateError } = await sb
+        .from('scene_messages')
+        .update({ snapshots: [], snapshots_purged_at: new Date().toISOString() })
+        .in('id', data.map((row) => row.id));
+      if (updateError) throw new Error(`Failed to mark messages purged: ${updateError.message}`);
+
+      summary.messages += data.length;
+      summary.files += paths.length;
+      if (data.length < BATCH_SIZE) break;
+    }
+
+    console.log(`[purge-scene-snapshots] ${JSON.stringify(summary)}`);
+    return new Response(JSON.stringify(summary), { status: 200, headers: jsonHeaders });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[purge-scene-snapshots]', message);
+    return new Response(JSON.stringify({ error: message }), { status: 500, headers: jsonHeaders });
+  }
+});
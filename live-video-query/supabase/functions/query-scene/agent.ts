@@ -0,0 +1,282 @@
+import { ApiError } from "../_shared/errors.ts";
+import { encodeSceneEvent, type SceneEvent, type ToolResult } from "../_shared/sceneEvents.ts";
+import { type ImageLimits, type PixelBudget, prepareImage } from "./images.ts";
+import {
+  type ChatMessage, type ContentPart, providerError, readTurn, toApiError, type ToolCall, type ToolDefinition,
+  type VlmProvider,
+} from "./providers.ts";
+import { callVaidio, type VaidioCaller } from "./vaidio.ts";
+
+/**
+ * Agent mode: the model may call Vaidio tools (other cameras, alerts, counts,
+ * scene search) before answering. Every tool runs through vaidio-proxy as the
+ * caller, so it can only see what the user could. Calls and results stream
+ * to the client as `tool_call` / `tool_result` events, the answer as `delta`.
+ */
+
+// Model turns before it must answer without tools
+const MAX_STEPS = 6;
+// Items per list passed back to the model
+const MAX_LIST_ITEMS = 50;
+const MAX_RESULT_CHARS = 6000;
+const MAX_STATUS_CHARS = 160;
+// Snapshot fetches wait longer than metadata calls
+const SNAPSHOT_TIMEOUT_MS = 15_000;
+
+export function agentInstructions(now: Date): string {
+  return `You can call tools to investigate beyond the snapshot you are shown: list cameras, look at another camera's live view, and query alerts, people counts and past scenes. The current time is ${now.toISOString()}; pass times to tools as ISO 8601. Call tools only when the question needs information the snapshot doesn't show, and say which cameras and times your answer relies on.`;
+}
+
+const timeRange = {
+  start: { type: "string", description: "Start of the range, ISO 8601" },
+  end: { type: "string", description: "End of the range, ISO 8601" },
+};
+
+export const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: "list_cameras",
+    description: "List the cameras you can access, with their ids, names, types and status.",
+    parameters: { type: "object", properties: {} },
+  },
+  {
+    name: "get_snapshot",
+    description: "Get the current live image from a camera.",
+    parameters: {
+      type: "object",
+      properties: { cameraId: { type: "integer", description: "Camera id from list_cameras" } },
+      required: ["cameraId"],
+    },
+  },
+  {
+    name: "get_alerts",
+    description: "List alerts (e.g. intrusion, loitering) raised in a time range, optionally for some cameras.",
+    parameters: {
+      type: "object",
+      properties: { ...timeRange, cameraIds: { type: "array", items: { type: "integer" } } },
+      required: ["start", "end"],
+    },
+  },
+  {
+    name: "get_counting",
+    description: "Get hourly people in/out counts in a time range, optionally for some cameras.",
+    parameters: {
+      type: "object",
+      properties: { ...timeRange, cameraIds: { type: "array", items: { type: "integer" } } },
+      required: ["start", "end"],
+    },
+  },
+  {
+    name: "search_scenes",
+    description: "Search recorded video for scenes matching a natural-language description in a time range.",
+    parameters: {
+      type: "object",
+      properties: { query: { type: "string", description: "What to look for, e.g. 'person carrying a box'" }, ...timeRange },
+      required: ["query", "start", "end"],
+    },
+  },
+];
+
+interface ToolOutput {
+  /** What the model sees */
+  content: string;
+  result: ToolResult;
+  /** Prepared snapshot to show the model */
+  image?: string;
+}
+
+interface ToolContext {
+  caller: VaidioCaller;
+  limits: ImageLimits;
+  /** Shared with the request's own images */
+  budget: PixelBudget;
+}
+
+function requireTime(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    throw new ApiError("invalid_input", `${key} must be an ISO 8601 time`);
+  }
+  return new Date(value).toISOString();
+}
+
+function rangeQuery(args: Record<string, unknown>, extra: Record<string, string> = {}): URLSearchParams {
+  const params = new URLSearchParams({ ...extra, start: requireTime(args, "start"), end: requireTime(args, "end") });
+  if (Array.isArray(args.cameraIds) && args.cameraIds.length) {
+    params.set("cameraIds", args.cameraIds.filter((id) => Number.isInteger(id)).join(","));
+  }
+  return params;
+}
+
+function listOutput(items: unknown[], noun: string): ToolOutput {
+  const shown = items.slice(0, MAX_LIST_ITEMS);
+  const more = items.length > shown.length ? ` (first ${shown.length} shown)` : "";
+  return {
+    content: JSON.stringify({ total: items.length, items: shown }).slice(0, MAX_RESULT_CHARS),
+    result: { summary: `${items.length} ${noun}${items.length === 1 ? "" : "s"}${more}` },
+  };
+}
+
+async function runTool(call: ToolCall, args: Record<string, unknown>, ctx: ToolContext): Promise<ToolOutput> {
+  switch (call.name) {
+    case "list_cameras": {
+      const data = await callVaidio<{ content?: Array<Record<string, unknown>> }>(ctx.caller, "/api/cameras");
+      const cameras = (data.content ?? []).map((c) => ({
+        id: c.cameraId, name: c.name, type: c.cameraType, status: c.status,
+      }));
+      return listOutput(cameras, "camera");
+    }
+    case "get_snapshot": {
+      const cameraId = args.cameraId;
+      if (typeof cameraId !== "number" || !Number.isInteger(cameraId)) {
+        throw new ApiError("invalid_input", "cameraId must be an integer");
+      }
+      const data = await callVaidio<{ image?: string }>(ctx.caller, `/api/streaming/${cameraId}/live.jpg`, {
+        returnImage: true,
+        timeoutMs: SNAPSHOT_TIMEOUT_MS,
+      });
+      const image = await prepareImage(data.image, `Camera ${cameraId}`, ctx.limits, ctx.budget);
+      return {
+        content: `Live image from camera ${cameraId} captured at ${new Date().toISOString()} is attached below.`,
+        result: { summary: `Live image from camera ${cameraId}`, imageBase64: image },
+        image,
+      };
+    }
+    case "get_alerts": {
+      const data = await callVaidio<{ content?: Array<Record<string, unknown>> }>(
+        ctx.caller,
+        `/api/alerts?${rangeQuery(args)}`,
+      );
+      const alerts = (data.content ?? [])
+        .map((a) => ({ type: a.type, cameraId: a.cameraId, datetime: a.datetime, state: a.state, message: a.message }))
+        .sort((a, b) => String(a.datetime).localeCompare(String(b.datetime)));
+      return listOutput(alerts, "alert");
+    }
+    case "get_counting": {
+      const data = await callVaidio<{ content?: Array<Record<string, unknown>> }>(
+        ctx.caller,
+        `/api/counting?${rangeQuery(args)}`,
+      );
+      const buckets = (data.content ?? []).map((b) => ({
+        datetime: b.datetime, in: b.inCount ?? b.count ?? 0, out: b.outCount ?? 0,
+      }));
+      return listOutput(buckets, "hourly count");
+    }
+    case "search_scenes": {
+      if (typeof args.query !== "string" || !args.query.trim()) {
+        throw new ApiError("invalid_input", "query must be a non-empty string");
+      }
+      const data = await callVaidio<{ content?: Array<Record<string, unknown>> }>(
+        ctx.caller,
+        `/api/scenes?${rangeQuery(args, { query: args.query })}`,
+      );
+      const scenes = (data.content ?? []).map((s) => ({ id: s.id, cameraId: s.cameraId, datetime: s.datetime }));
+      return listOutput(scenes, "matching scene");
+    }
+    default:
+      throw new ApiError("invalid_input", `Unknown tool: ${call.name}`);
+  }
+}
+
+function parseArguments(call: ToolCall): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(call.arguments || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// The model's note between tool calls, as one short status line
+function statusLine(text: string): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.slice(0, MAX_STATUS_CHARS);
+}
+
+/**
+ * Answer with tools: each turn runs the tools the model called and feeds
+ * their results back. A turn's text is only known to be the answer once the
+ * turn ends without tool calls, so it is held until then; text from a turn
+ * that calls tools goes out as a status line instead. Snapshots are added as a user
+ * turn after the tool results, since tool results can't carry images
+ * everywhere. A failing tool is reported to the model, not the client.
+ */
+export function runAgent(
+  provider: VlmProvider,
+  model: string,
+  messages: ChatMessage[],
+  ctx: ToolContext,
+  { temperature, maxTokens, onImage }: { temperature?: number; maxTokens?: number; onImage?: () => void } = {},
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const conversation = [...messages];
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: SceneEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeSceneEvent(event)));
+      };
+      try {
+        for (let step = 1; ; step++) {
+          const finalStep = step >= MAX_STEPS;
+          const response = await provider.send({
+            model,
+            messages: conversation,
+            tools: finalStep ? undefined : AGENT_TOOLS,
+            temperature,
+            maxTokens,
+          });
+          if (!response.ok) throw await providerError(provider, response);
+
+          const turn = await readTurn(provider, response);
+          if (turn.toolCalls.length === 0 || finalStep || cancelled) {
+            if (turn.text) emit({ type: "delta", content: turn.text });
+            break;
+          }
+          const thought = statusLine(turn.text);
+          if (thought) emit({ type: "status", message: thought });
+
+          conversation.push({ role: "assistant", content: turn.text, toolCalls: turn.toolCalls });
+          const images: ContentPart[] = [];
+          for (const call of turn.toolCalls) {
+            if (cancelled) break;
+            const args = parseArguments(call);
+            emit({ type: "tool_call", id: call.id, name: call.name, arguments: args });
+            let output: ToolOutput;
+            try {
+              output = await runTool(call, args, ctx);
+            } catch (error) {
+              const apiError = toApiError(error);
+              console.warn(`Tool ${call.name} failed (${apiError.code}):`, apiError.message);
+              output = {
+                content: `Error: ${apiError.message}`,
+                result: { summary: "Failed", error: apiError.toBody() },
+              };
+            }
+            emit({ type: "tool_result", id: call.id, result: output.result });
+            conversation.push({ role: "tool", toolCallId: call.id, content: output.content });
+            if (output.image) {
+              images.push({ type: "image_url", image_url: { url: output.image } });
+              onImage?.();
+            }
+          }
+          if (cancelled) break;
+          if (images.length) {
+            conversation.push({ role: "user", content: [{ type: "text", text: "Images returned by the tools:" }, ...images] });
+          }
+        }
+        emit({ type: "done" });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Agent query failed:", error);
+        emit({ type: "error", error: toApiError(error).toBody() });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; the upstream request is aborted by the request signal
+      cancelled = true;
+    },
+  });
+}
@@ -0,0 +1,152 @@
+import { ApiError } from "../_shared/errors.ts";
+import { encodeSceneEvent, type SceneEvent } from "../_shared/sceneEvents.ts";
+import { providerError, streamDeltas, toApiError, type VlmProvider } from "./providers.ts";
+
+/** Most cameras accepted in one multi-camera question */
+export const MAX_CAMERAS = 12;
+// Per-camera VLM calls in flight at once
+const CAMERA_CONCURRENCY = 4;
+
+export interface CameraFrame {
+  cameraId: number;
+  name: string;
+  /** Data URL, once passed through `prepareImage` */
+  imageBase64: string;
+}
+
+/** Per-camera calls use the caller's system prompt plus this */
+const CAMERA_INSTRUCTIONS = `You are shown a live snapshot from one of several cameras and asked a question that is being put to all of them. Answer for this camera only, in one to three sentences.`;
+
+/** Prompt and sampling settings for the per-camera calls, from the analysis profile */
+export interface CameraQueryOptions {
+  systemPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+const SUMMARY_PROMPT = `You are an expert video surveillance analyst. A question was asked about several cameras, and you are given the answer for each one. Write a short combined answer to the question that names the relevant cameras. Do not invent details that are not in the per-camera answers.`;
+
+/** Validate the camera list from the request body. */
+export function parseCameraFrames(raw: unknown): CameraFrame[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ApiError("invalid_input", "cameras must be a non-empty array");
+  }
+  if (raw.length > MAX_CAMERAS) {
+    throw new ApiError("invalid_input", `At most ${MAX_CAMERAS} cameras are allowed`);
+  }
+
+  const seen = new Set<number>();
+  return raw.map((item, index) => {
+    const { cameraId, name, imageBase64 } = (item ?? {}) as Record<string, unknown>;
+    if (typeof cameraId !== "number" || !Number.isInteger(cameraId) || seen.has(cameraId)) {
+      throw new ApiError("invalid_input", `Camera ${index + 1} has a missing or duplicate cameraId`);
+    }
+    if (typeof imageBase64 !== "string" || !imageBase64) {
+      throw new ApiError("invalid_input", `Camera ${cameraId} has no image`);
+    }
+    seen.add(cameraId);
+    return { cameraId, name: typeof name === "string" && name ? name : `Camera ${cameraId}`, imageBase64 };
+  });
+}
+
+/**
+ * Ask the same question about each camera, then summarize the answers.
+ * Per-camera calls run concurrently, so their deltas interleave; every event
+ * carries its cameraId. A failing camera is reported and left out of the
+ * summary rather than failing the whole request.
+ */
+export function answerAcrossCameras(
+  provider: VlmProvider,
+  model: string,
+  question: string,
+  cameras: CameraFrame[],
+  { systemPrompt, temperature, maxTokens }: CameraQueryOptions,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: SceneEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeSceneEvent(event)));
+      };
+      const answers = new Map<number, string>();
+
+      const answerCamera = async (camera: CameraFrame) => {
+        emit({ type: "camera_start", cameraId: camera.cameraId, name: camera.name });
+        try {
+          const response = await provider.send({
+            model,
+            temperature,
+            maxTokens,
+            messages: [
+              { role: "system", content: `${systemPrompt}\n\n${CAMERA_INSTRUCTIONS}` },
+              {
+                role: "user",
+                content: [
+                  { type: "text", text: `Camera: ${camera.name}` },
+                  { type: "image_url", image_url: { url: camera.imageBase64 } },
+                  { type: "text", text: question },
+                ],
+              },
+            ],
+          });
+          if (!response.ok) throw await providerError(provider, response);
+
+          let answer = "";
+          for await (const content of streamDeltas(provider, response)) {
+            answer += content;
+            emit({ type: "camera_delta", cameraId: camera.cameraId, content });
+          }
+          answers.set(camera.cameraId, answer);
+          emit({ type: "camera_done", cameraId: camera.cameraId });
+        } catch (error) {
+          if (cancelled) return;
+          console.error(`Camera ${camera.cameraId} query failed:`, error);
+          emit({ type: "camera_error", cameraId: camera.cameraId, error: toApiError(error).toBody() });
+        }
+      };
+
+      try {
+        const queue = [...cameras];
+        await Promise.all(
+          Array.from({ length: Math.min(CAMERA_CONCURRENCY, queue.length) }, async () => {
+            for (let camera = queue.shift(); camera && !cancelled; camera = queue.shift()) await answerCamera(camera);
+          }),
+        );
+
+        if (cancelled) return;
+        const answered = cameras.filter((c) => answers.has(c.cameraId));
+        if (answered.length === 0) {
+          emit({ type: "error", error: new ApiError("upstream_http_error", "No camera could be analyzed").toBody() });
+        } else if (cameras.length > 1) {
+          const response = await provider.send({
+            model,
+            messages: [
+              { role: "system", content: SUMMARY_PROMPT },
+              {
+                role: "user",
+                content: `Question: ${question}\n\n${
+                  answered.map((c) => `${c.name} (camera ${c.cameraId}): ${answers.get(c.cameraId)}`).join("\n\n")
+                }`,
+              },
+            ],
+          });
+          if (!response.ok) throw await providerError(provider, response);
+          for await (const content of streamDeltas(provider, response)) emit({ type: "summary_delta", content });
+        }
+        emit({ type: "done" });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Multi-camera summary failed:", error);
+        emit({ type: "error", error: toApiError(error).toBody() });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; the upstream request is aborted by the request signal
+      cancelled = true;
+    },
+  });
+}
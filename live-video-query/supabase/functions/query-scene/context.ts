@@ -0,0 +1,140 @@
+import { ApiError } from "../_shared/errors.ts";
+import { callVaidio, type VaidioCaller } from "./vaidio.ts";
+
+/**
+ * Optional Vaidio metadata added to scene prompts, fetched as the caller
+ * (see vaidio.ts).
+ */
+
+export interface ContextOptions {
+  /** Camera name, type, resolution and status */
+  camera: boolean;
+  /** Alerts in the last `alertMinutes` */
+  alerts: boolean;
+  /** In/out counts for the current hour against the hours before */
+  counting: boolean;
+  alertMinutes: number;
+}
+
+const MAX_ALERT_MINUTES = 24 * 60;
+const COUNTING_HOURS = 6;
+
+export function parseContextOptions(raw: unknown): ContextOptions | null {
+  if (raw === undefined || raw === null || raw === false) return null;
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ApiError("invalid_input", "context must be an object");
+  }
+  const { camera, alerts, counting, alertMinutes = 30 } = raw as Record<string, unknown>;
+  if (typeof alertMinutes !== "number" || !Number.isInteger(alertMinutes) || alertMinutes < 1 || alertMinutes > MAX_ALERT_MINUTES) {
+    throw new ApiError("invalid_input", `alertMinutes must be an integer from 1 to ${MAX_ALERT_MINUTES}`);
+  }
+  const options = { camera: camera === true, alerts: alerts === true, counting: counting === true, alertMinutes };
+  return options.camera || options.alerts || options.counting ? options : null;
+}
+
+async function proxyGet<T>(caller: VaidioCaller, endpoint: string): Promise<T | null> {
+  try {
+    return await callVaidio<T>(caller, endpoint);
+  } catch (error) {
+    // Typically forbidden_endpoint for roles without alerts/counting access
+    console.warn(`Context ${endpoint} unavailable:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+interface CameraInfo {
+  name?: string;
+  cameraType?: string;
+  status?: string | null;
+  resolution?: { width: number; height: number } | null;
+}
+
+interface AlertInfo {
+  type?: string;
+  datetime?: string;
+  message?: string;
+}
+
+interface CountingBucket {
+  datetime?: string;
+  inCount?: number;
+  outCount?: number;
+  count?: number;
+}
+
+function describeCamera(camera: CameraInfo, cameraId: number): string {
+  const parts = [`Camera: ${camera.name || `#${cameraId}`} (id ${cameraId})`];
+  if (camera.cameraType) parts.push(`type ${camera.cameraType}`);
+  if (camera.resolution) parts.push(`${camera.resolution.width}×${camera.resolution.height}`);
+  if (camera.status) parts.push(`status ${camera.status}`);
+  return parts.join(", ");
+}
+
+function describeAlerts(alerts: AlertInfo[], minutes: number, now: number): string {
+  if (alerts.length === 0) return `Alerts in the last ${minutes} min: none`;
+  const byType = new Map<string, number>();
+  for (const alert of alerts) byType.set(alert.type || "unknown", (byType.get(alert.type || "unknown") ?? 0) + 1);
+  const summary = [...byType].map(([type, count]) => `${count} ${type}`).join(", ");
+  const recent = alerts
+    .filter((a) => a.datetime)
+    .sort((a, b) => Date.parse(b.datetime!) - Date.parse(a.datetime!))
+    .slice(0, 3)
+    .map((a) => `${a.type || "alert"} ${Math.round((now - Date.parse(a.datetime!)) / 60000)} min ago${a.message ? ` (${a.message})` : ""}`);
+  return `Alerts in the last ${minutes} min: ${summary}. Most recent: ${recent.join("; ")}`;
+}
+
+function describeCounting(buckets: CountingBucket[]): string | null {
+  const sorted = buckets
+    .filter((b) => b.datetime)
+    .sort((a, b) => Date.parse(a.datetime!) - Date.parse(b.datetime!));
+  const current = sorted[sorted.length - 1];
+  if (!current) return null;
+
+  const inCount = (b: CountingBucket) => b.inCount ?? b.count ?? 0;
+  let line = `People counting, current hour: ${inCount(current)} in, ${current.outCount ?? 0} out`;
+  const earlier = sorted.slice(0, -1);
+  if (earlier.length > 0) {
+    const average = earlier.reduce((sum, b) => sum + inCount(b), 0) / earlier.length;
+    line += `; average ${average.toFixed(1)} in per hour over the previous ${earlier.length} hours`;
+  }
+  return line;
+}
+
+/**
+ * Build the context block for one camera, or null when nothing could be
+ * fetched. Sources that fail or aren't permitted are left out.
+ */
+export async function buildContextBlock(
+  req: Request,
+  options: ContextOptions,
+  cameraId: number,
+  serverId: string | undefined,
+): Promise<string | null> {
+  const now = Date.now();
+  const caller = { req, serverId };
+  const range = (minutes: number) =>
+    new URLSearchParams({
+      cameraIds: String(cameraId),
+      start: new Date(now - minutes * 60000).toISOString(),
+      end: new Date(now).toISOString(),
+    });
+
+  const [camera, alerts, counting] = await Promise.all([
+    options.camera ? proxyGet<CameraInfo>(caller, `/api/cameras/${cameraId}`) : null,
+    options.alerts
+      ? proxyGet<{ content?: AlertInfo[] }>(caller, `/api/alerts?${range(options.alertMinutes)}`)
+      : null,
+    options.counting
+      ? proxyGet<{ content?: CountingBucket[] }>(caller, `/api/counting?${range(COUNTING_HOURS * 60)}`)
+      : null,
+  ]);
+
+  const lines: string[] = [];
+  if (camera) lines.push(describeCamera(camera, cameraId));
+  if (alerts) lines.push(describeAlerts(alerts.content ?? [], options.alertMinutes, now));
+  const countingLine = counting ? describeCounting(counting.content ?? []) : null;
+  if (countingLine) lines.push(countingLine);
+  if (lines.length === 0) return null;
+
+  return `Context from the video management system at ${new Date(now).toISOString()} (use it to ground your answer, but trust the image for what is visible):\n- ${lines.join("\n- ")}`;
+}
@@ -0,0 +1,108 @@
+import { ApiError } from "../_shared/errors.ts";
+import type { ContentPart } from "./providers.ts";
+
+/** Most frames accepted in one sequence query */
+export const MAX_FRAMES = 16;
+
+/** Appended to the system prompt for sequence questions */
+export const SEQUENCE_INSTRUCTIONS = `You are shown an ordered sequence of frames from one camera, each labeled with its capture time, and asked a question about what happened. Compare the frames to reason about movement, direction and changes over time, and refer to frames or times when helpful. Frames are seconds apart, so do not assume anything about what happened between them.`;
+
+/** Most earlier frames accepted alongside a snapshot for comparison */
+export const MAX_EARLIER_FRAMES = 4;
+
+/** Appended to the system prompt for follow-ups that include earlier frames */
+export const COMPARISON_INSTRUCTIONS = `You are shown one or more earlier frames from the conversation, each labeled "Earlier" with its capture time, followed by the current frame labeled "Now", and asked a question about the scene. Compare them to answer questions about what changed, what is still there and what is new, and say which frame you are describing. Nothing is known about what happened between the frames.`;
+
+export interface TimedFrame {
+  imageBase64: string;
+  capturedAt: string;
+}
+
+/** Validate a frame sequence from the request body and order it by capture time. */
+export function parseFrames(raw: unknown): TimedFrame[] {
+  if (!Array.isArray(raw) || raw.length < 2) {
+    throw new ApiError("invalid_input", "frames must be an array of at least 2 frames");
+  }
+  if (raw.length > MAX_FRAMES) {
+    throw new ApiError("invalid_input", `At most ${MAX_FRAMES} frames are allowed`);
+  }
+
+  const frames = raw.map((frame, index) => {
+    const { imageBase64, capturedAt } = (frame ?? {}) as Record<string, unknown>;
+    if (typeof imageBase64 !== "string" || !imageBase64) {
+      throw new ApiError("invalid_input", `Frame ${index + 1} has no image`);
+    }
+    if (typeof capturedAt !== "string" || Number.isNaN(Date.parse(capturedAt))) {
+      throw new ApiError("invalid_input", `Frame ${index + 1} has an invalid capturedAt timestamp`);
+    }
+    return { imageBase64, capturedAt };
+  });
+
+  return frames.sort((a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt));
+}
+
+/** Validate earlier frames sent for comparison and order them by capture time. */
+export function parseEarlierFrames(raw: unknown): TimedFrame[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ApiError("invalid_input", "earlierFrames must be a non-empty array");
+  }
+  if (raw.length > MAX_EARLIER_FRAMES) {
+    throw new ApiError("invalid_input", `At most ${MAX_EARLIER_FRAMES} earlier frames are allowed`);
+  }
+
+  const frames = raw.map((frame, index) => {
+    const { imageBase64, capturedAt } = (frame ?? {}) as Record<string, unknown>;
+    if (typeof imageBase64 !== "string" || !imageBase64) {
+      throw new ApiError("invalid_input", `Earlier frame ${index + 1} has no image`);
+    }
+    if (typeof capturedAt !== "string" || Number.isNaN(Date.parse(capturedAt))) {
+      throw new ApiError("invalid_input", `Earlier frame ${index + 1} has an invalid capturedAt timestamp`);
+    }
+    return { imageBase64, capturedAt };
+  });
+
+  return frames.sort((a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt));
+}
+
+function describeAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 120) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 120 ? `${minutes} min` : `${(minutes / 60).toFixed(1)} h`;
+}
+
+/**
+ * Label earlier frames and the current one, giving each capture time and how
+ * long before "now" the earlier ones were taken. Frames must already be data
+ * URLs from `prepareImage`.
+ */
+export function comparisonContent(earlier: TimedFrame[], now: TimedFrame): ContentPart[] {
+  const nowMs = Date.parse(now.capturedAt);
+  return [
+    ...earlier.flatMap((frame, index): ContentPart[] => [
+      {
+        type: "text",
+        text: `Earlier${earlier.length > 1 ? ` (${index + 1} of ${earlier.length})` : ""} — ${frame.capturedAt}, ${describeAge(nowMs - Date.parse(frame.capturedAt))} before now`,
+      },
+      { type: "image_url", image_url: { url: frame.imageBase64 } },
+    ]),
+    { type: "text", text: `Now — ${now.capturedAt}` },
+    { type: "image_url", image_url: { url: now.imageBase64 } },
+  ];
+}
+
+/**
+ * Interleave each frame with a label giving its position and offset from the
+ * first frame, so the model can reason about order and elapsed time. Frames
+ * must already be data URLs from `prepareImage`.
+ */
+export function frameSequenceContent(frames: TimedFrame[]): ContentPart[] {
+  const start = Date.parse(frames[0].capturedAt);
+  return frames.flatMap((frame, index): ContentPart[] => [
+    {
+      type: "text",
+      text: `Frame ${index + 1} of ${frames.length} — t+${((Date.parse(frame.capturedAt) - start) / 1000).toFixed(1)}s (${frame.capturedAt})`,
+    },
+    { type: "image_url", image_url: { url: frame.imageBase64 } },
+  ]);
+}
@@ -0,0 +1,176 @@
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { base64ToBytes, bytesToBase64 } from "../_shared/base64.ts";
+import { ApiError } from "../_shared/errors.ts";
+
+/**
+ * Validation and downscaling for images sent to the VLM. Every image must be
+ * an inline JPEG or PNG (data URL or bare base64); remote URLs are rejected.
+ *
+ * Limits come from function secrets:
+ *   VLM_MAX_IMAGE_BYTES      largest accepted image (default 8 MB)
+ *   VLM_MAX_IMAGE_PIXELS     largest accepted width × height (default 12 MP)
+ *   VLM_MAX_REQUEST_PIXELS   pixels decoded for downscaling per request (default 48 MP)
+ *   VLM_MAX_IMAGE_DIMENSION  longer side is downscaled to this (default 1568; 0 disables)
+ *   VLM_JPEG_QUALITY         quality for downscaled images (default 85)
+ *
+ * Decoding expands an image to 4 bytes per pixel (a 12 MP frame is ~48 MB),
+ * so both single images and the total decoded in one request are capped.
+ */
+
+export interface ImageLimits {
+  maxBytes: number;
+  maxPixels: number;
+  maxRequestPixels: number;
+  maxDimension: number;
+  jpegQuality: number;
+}
+
+type ImageFormat = "jpeg" | "png";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Deno.env.get(name) && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getImageLimits(): ImageLimits {
+  return {
+    maxBytes: envNumber("VLM_MAX_IMAGE_BYTES", 8 * 1024 * 1024),
+    maxPixels: envNumber("VLM_MAX_IMAGE_PIXELS", 12_000_000),
+    maxRequestPixels: envNumber("VLM_MAX_REQUEST_PIXELS", 48_000_000),
+    maxDimension: envNumber("VLM_MAX_IMAGE_DIMENSION", 1568),
+    jpegQuality: Math.min(100, Math.max(1, envNumber("VLM_JPEG_QUALITY", 85))),
+  };
+}
+
+/** Pixels one request may still decode; shared by every `prepareImage` call for it. */
+export interface PixelBudget {
+  remaining: number;
+}
+
+export function createPixelBudget(limits: ImageLimits): PixelBudget {
+  return { remaining: limits.maxRequestPixels };
+}
+
+/** Upper bound for a request body carrying `imageCount` images at the byte limit. */
+export function maxRequestBytes(limits: ImageLimits, imageCount: number): number {
+  // base64 grows data by 4/3; allow 1 MB for the question, history and JSON
+  return Math.ceil(limits.maxBytes * 4 / 3) * imageCount + 1024 * 1024;
+}
+
+function sniffFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  return null;
+}
+
+/** Read width and height from the file header without decoding pixels. */
+function readDimensions(bytes: Uint8Array, format: ImageFormat): { width: number; height: number } | null {
+  if (format === "png") {
+    if (bytes.length < 24) return null;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // Walk JPEG segments until a start-of-frame marker
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: (bytes[i + 5] << 8) | bytes[i + 6], width: (bytes[i + 7] << 8) | bytes[i + 8] };
+    }
+    i += 2 + ((bytes[i + 2] << 8) | bytes[i + 3]);
+  }
+  return null;
+}
+
+function rejectImage(label: string, reason: string): never {
+  throw new ApiError("invalid_image", `${label}: ${reason}`, { details: { image: label, reason } });
+}
+
+/**
+ * Verify one image and return it as a data URL, downscaled (as JPEG) when its
+ * longer side exceeds the configured maximum. `label` names the image in
+ * errors, e.g. "Frame 3". Images that need decoding draw on `budget`.
+ */
+export async function prepareImage(
+  input: unknown,
+  label: string,
+  limits: ImageLimits,
+  budget: PixelBudget,
+): Promise<string> {
+  if (typeof input !== "string" || !input) rejectImage(label, "no image data");
+
+  let base64 = input;
+  if (input.startsWith("data:")) {
+    const match = input.match(/^data:image\/(jpeg|jpg|png);base64,(.*)$/s);
+    if (!match) rejectImage(label, "only base64 JPEG or PNG data URLs are accepted");
+    base64 = match[2];
+  } else if (/^[a-z][a-z0-9+.-]*:/i.test(input)) {
+    rejectImage(label, "image URLs are not accepted; send the image data");
+  }
+  base64 = base64.replace(/\s/g, "");
+
+  // Check the size before decoding anything
+  const byteLength = Math.floor(base64.length * 3 / 4);
+  if (byteLength > limits.maxBytes) {
+    throw new ApiError(
+      "payload_too_large",
+      `${label}: image is ${(byteLength / 1048576).toFixed(1)} MB (limit ${(limits.maxBytes / 1048576).toFixed(1)} MB)`,
+      { details: { image: label, bytes: byteLength, maxBytes: limits.maxBytes } },
+    );
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(base64);
+  } catch {
+    rejectImage(label, "invalid base64 data");
+  }
+
+  const format = sniffFormat(bytes);
+  if (!format) rejectImage(label, "not a JPEG or PNG image");
+  const size = readDimensions(bytes, format);
+  if (!size || size.width === 0 || size.height === 0) rejectImage(label, `unreadable ${format.toUpperCase()} header`);
+  if (size.width * size.height > limits.maxPixels) {
+    throw new ApiError(
+      "payload_too_large",
+      `${label}: ${size.width}×${size.height} exceeds the ${(limits.maxPixels / 1e6).toFixed(0)} MP limit`,
+      { details: { image: label, width: size.width, height: size.height, maxPixels: limits.maxPixels } },
+    );
+  }
+
+  const longSide = Math.max(size.width, size.height);
+  if (!limits.maxDimension || longSide <= limits.maxDimension) {
+    return `data:image/${format};base64,${base64}`;
+  }
+
+  const pixels = size.width * size.height;
+  if (pixels > budget.remaining) {
+    throw new ApiError(
+      "payload_too_large",
+      `${label}: the request's images exceed the ${(limits.maxRequestPixels / 1e6).toFixed(0)} MP total; send fewer or smaller images`,
+      { details: { image: label, maxRequestPixels: limits.maxRequestPixels } },
+    );
+  }
+  budget.remaining -= pixels;
+
+  let image: Image;
+  try {
+    image = await Image.decode(bytes);
+  } catch {
+    rejectImage(label, `corrupt ${format.toUpperCase()} data`);
+  }
+  const scale = limits.maxDimension / longSide;
+  image.resize(Math.max(1, Math.round(size.width * scale)), Math.max(1, Math.round(size.height * scale)));
+  const encoded = await image.encodeJPEG(limits.jpegQuality);
+  return `data:image/jpeg;base64,${bytesToBase64(encoded)}`;
+}
@@ -1,4 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { assertCameraAccess, authenticate, AuthError, authorizeServer } from "../_shared/auth.ts";
+import { ApiError, errorResponse, readJsonBody } from "../_shared/errors.ts";
+import type { StructuredAnswer } from "../_shared/sceneEvents.ts";
+import { agentInstructions, runAgent } from "./agent.ts";
+import { answerAcrossCameras, parseCameraFrames } from "./cameras.ts";
+import { buildContextBlock, parseContextOptions } from "./context.ts";
+import {
+  COMPARISON_INSTRUCTIONS, comparisonContent, frameSequenceContent, MAX_EARLIER_FRAMES, MAX_FRAMES,
+  parseEarlierFrames, parseFrames, SEQUENCE_INSTRUCTIONS,
+} from "./frames.ts";
+import { createPixelBudget, getImageLimits, maxRequestBytes, prepareImage } from "./images.ts";
+import {
+  DEFAULT_SYSTEM_PROMPT, findAssignedProfileId, listProfiles, resolveProfile, selectModel, toProfileSummary,
+} from "./profiles.ts";
+import { type ChatMessage, getProvider, providerError, toApiError, withSignal, withUsage } from "./providers.ts";
+import { answerStructured, STRUCTURED_INSTRUCTIONS, structuredEventStream } from "./structured.ts";
+import { assertWithinQuota, createUsageMeter, recordWhenDone } from "./usage.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,89 +23,250 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+const SNAPSHOT_INSTRUCTIONS = `You are shown a live camera snapshot and asked a question about the scene.`;
+
+// History is text-only context; images and other content parts are dropped
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_CHARS = 4000;
+
+function parseHistory(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((m): m is { role: "user" | "assistant"; content: string } =>
+      (m?.role === "user" || m?.role === "assistant") && typeof m.content === "string"
+    )
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map((m) => ({ role: m.role, content: m.content.slice(0, MAX_HISTORY_CHARS) }));
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { imageBase64, question, history } = await req.json();
+    const user = await authenticate(req);
+
+    // Reject oversized bodies before parsing them
+    const limits = getImageLimits();
+    const budget = createPixelBudget(limits);
+    const contentLength = Number(req.headers.get("content-length"));
+    if (contentLength > maxRequestBytes(limits, Math.max(MAX_FRAMES, MAX_EARLIER_FRAMES + 1))) {
+      throw new ApiError("payload_too_large", "Request body is too large");
+    }
+
+    const {
+      action, imageBase64, capturedAt, earlierFrames, frames, cameras, question, history, serverId, cameraId, cameraType, model,
+      profileId, format = "text", stream = true, context, agent = false,
+    } = await readJsonBody(req);
+    const provider = getProvider();
+
+    // Models the client may pick from; the first is the default
+    if (action === "models") {
+      return new Response(
+        JSON.stringify({ provider: provider.id, models: provider.models, defaultModel: provider.defaultModel }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    if (serverId != null && typeof serverId !== "string") throw new ApiError("invalid_input", "serverId must be a string");
+    const vaidioServerId = typeof serverId === "string" && serverId ? serverId : undefined;
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
-    if (!imageBase64) throw new Error("No image provided");
-    if (!question) throw new Error("No question provided");
+    // Only users granted access to the camera's server may spend VLM credits on it
+    const access = await authorizeServer(user.id, vaidioServerId);
+    if (cameraId !== undefined && (typeof cameraId !== "number" || !Number.isInteger(cameraId))) {
+      throw new ApiError("invalid_input", "cameraId must be an integer");
+    }
+    if (cameraId !== undefined) assertCameraAccess(access, cameraId);
+    if (cameraType !== undefined && typeof cameraType !== "string") {
+      throw new ApiError("invalid_input", "cameraType must be a string");
+    }
+
+    // Profiles the client may pick from, and the one assigned to the camera.
+    // System prompts stay server-side.
+    if (action === "profiles") {
+      const [profiles, assignedProfileId] = await Promise.all([
+        listProfiles(),
+        findAssignedProfileId(access.serverId, typeof cameraId === "number" ? cameraId : undefined, cameraType),
+      ]);
+      return new Response(
+        JSON.stringify({ profiles: profiles.map(toProfileSummary), assignedProfileId }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
 
-    const systemPrompt = `You are an expert video surveillance analyst. You are shown a live camera snapshot and asked a question about the scene. Answer concisely and accurately based on what you see in the image. If you cannot determine the answer from the image, say so honestly.`;
+    // Everything below calls the provider, so it counts against quotas
+    await assertWithinQuota(user.id);
+    const usageEntry = { userId: user.id, userEmail: user.email, serverId: access.serverId, provider: provider.id };
+
+    const profile = await resolveProfile({
+      profileId,
+      serverId: access.serverId,
+      cameraId: typeof cameraId === "number" ? cameraId : undefined,
+      cameraType,
+    });
+    const systemPromptBase = profile?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT;
+    const temperature = profile?.temperature ?? undefined;
+    const maxTokens = profile?.maxTokens ?? undefined;
+
+    // One question across several cameras: per-camera answers plus a summary, as typed events
+    if (cameras !== undefined) {
+      const cameraFrames = parseCameraFrames(cameras);
+      for (const camera of cameraFrames) assertCameraAccess(access, camera.cameraId);
+      if (typeof question !== "string" || !question) throw new ApiError("invalid_input", "No question provided");
+      for (const camera of cameraFrames) {
+        camera.imageBase64 = await prepareImage(camera.imageBase64, camera.name, limits, budget);
+      }
+      const cameraModel = selectModel(provider, model, profile);
+      const meter = createUsageMeter({
+        ...usageEntry, model: cameraModel, mode: "cameras", imageCount: cameraFrames.length,
+      });
+      const metered = withSignal(withUsage(provider, meter.add), req.signal);
+      const events = answerAcrossCameras(metered, cameraModel, question, cameraFrames, {
+        systemPrompt: systemPromptBase,
+        temperature,
+        maxTokens,
+      });
+      return new Response(recordWhenDone(events, meter), {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+      });
+    }
 
-    const messages: any[] = [
+    // Nothing ties these images to a camera without a cameraId, so only a
+    // server-wide grant may leave it out
+    if (cameraId === undefined && access.cameraIds !== null) {
+      throw new AuthError("cameraId is required with access limited to some cameras", "forbidden");
+    }
+
+    // A frame sequence replaces the single snapshot for questions about motion and change
+    const sequence = frames !== undefined ? parseFrames(frames) : null;
+    if (!sequence && !imageBase64) throw new ApiError("invalid_input", "No image provided");
+    // Frames from earlier in the conversation, shown before the snapshot for "what changed?" follow-ups
+    const earlier = earlierFrames !== undefined ? parseEarlierFrames(earlierFrames) : null;
+    if (earlier && sequence) throw new ApiError("invalid_input", "earlierFrames go with a single snapshot, not frames");
+    if (capturedAt !== undefined && (typeof capturedAt !== "string" || Number.isNaN(Date.parse(capturedAt)))) {
+      throw new ApiError("invalid_input", "capturedAt must be an ISO 8601 time");
+    }
+    if (typeof question !== "string" || !question) throw new ApiError("invalid_input", "No question provided");
+    if (format !== "text" && format !== "structured") {
+      throw new ApiError("invalid_input", 'format must be "text" or "structured"');
+    }
+    // Boxes are relative to one image, so structured answers need a single snapshot
+    const structured = format === "structured";
+    if (structured && (sequence || earlier)) throw new ApiError("invalid_input", "Structured answers need a single snapshot");
+    if (typeof agent !== "boolean") throw new ApiError("invalid_input", "agent must be a boolean");
+    if (agent && structured) throw new ApiError("invalid_input", "Agent mode answers in text, not structured");
+    const selectedModel = selectModel(provider, model, profile);
+    const contextOptions = parseContextOptions(context);
+    if (contextOptions && typeof cameraId !== "number") {
+      throw new ApiError("invalid_input", "context requires a cameraId");
+    }
+
+    // The profile describes the analyst; the mode says what it is shown
+    const modeInstructions = sequence ? SEQUENCE_INSTRUCTIONS : earlier ? COMPARISON_INSTRUCTIONS : SNAPSHOT_INSTRUCTIONS;
+    const basePrompt = `${systemPromptBase}\n\n${modeInstructions}`;
+
+    const systemPrompt = structured
+      ? `${basePrompt}\n\n${STRUCTURED_INSTRUCTIONS}`
+      : agent
+        ? `${basePrompt}\n\n${agentInstructions(new Date())}`
+        : basePrompt;
+
+    const messages: ChatMessage[] = [
       { role: "system", content: systemPrompt },
     ];
 
     // Add conversation history if provided
-    if (history && Array.isArray(history)) {
-      for (const msg of history) {
-        messages.push(msg);
+    messages.push(...parseHistory(history));
+
+    // Decode, verify and downscale images one at a time to bound memory
+    if (sequence) {
+      for (const [index, frame] of sequence.entries()) {
+        frame.imageBase64 = await prepareImage(frame.imageBase64, `Frame ${index + 1}`, limits, budget);
+      }
+    }
+    if (earlier) {
+      for (const [index, frame] of earlier.entries()) {
+        frame.imageBase64 = await prepareImage(frame.imageBase64, `Earlier frame ${index + 1}`, limits, budget);
       }
     }
+    const image = sequence ? null : await prepareImage(imageBase64, "Image", limits, budget);
 
-    // Add current question with image
+    // Vaidio metadata for the camera, fetched as the caller
+    const contextBlock = contextOptions && cameraId !== undefined
+      ? await buildContextBlock(req, contextOptions, cameraId, vaidioServerId)
+      : null;
+
+    // Add current question with image(s)
     messages.push({
       role: "user",
       content: [
-        {
-          type: "image_url",
-          image_url: { url: imageBase64.startsWith("data:") ? imageBase64 : `data:image/jpeg;base64,${imageBase64}` },
-        },
+        ...(sequence
+          ? frameSequenceContent(sequence)
+          : earlier
+            ? comparisonContent(earlier, { imageBase64: image!, capturedAt: capturedAt ?? new Date().toISOString() })
+            : [{ type: "image_url" as const, image_url: { url: image! } }]),
+        ...(contextBlock ? [{ type: "text" as const, text: contextBlock }] : []),
         { type: "text", text: question },
       ],
     });
 
-    const response = await fetch(
-      "https://ai.gateway.lovable.dev/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "google/gemini-2.5-flash",
-          messages,
-          stream: true,
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "Payment required. Please add credits." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    const meter = createUsageMeter({
+      ...usageEntry,
+      cameraId: typeof cameraId === "number" ? cameraId : undefined,
+      model: selectedModel,
+      mode: structured ? "structured" : agent ? "agent" : sequence ? "sequence" : "snapshot",
+      imageCount: sequence ? sequence.length : 1 + (earlier?.length ?? 0),
+    });
+    // A cancelled question aborts the provider call instead of running to the end
+    const metered = withSignal(withUsage(provider, meter.add), req.signal);
+
+    if (structured) {
+      // Integrations can ask for the validated answer as a plain JSON response
+      if (stream === false) {
+        let result: StructuredAnswer;
+        try {
+          result = await answerStructured(metered, selectedModel, messages);
+        } finally {
+          await meter.record();
+        }
+        return new Response(JSON.stringify(result), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      return new Response(
-        JSON.stringify({ error: "Failed to query scene" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      const events = structuredEventStream((onStatus) => answerStructured(metered, selectedModel, messages, onStatus));
+      return new Response(recordWhenDone(events, meter), {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+      });
+    }
+
+    // Tool calls and their results stream as typed events around the answer
+    if (agent) {
+      const events = runAgent(
+        metered,
+        selectedModel,
+        messages,
+        { caller: { req, serverId: vaidioServerId }, limits, budget },
+        { temperature, maxTokens, onImage: () => meter.addImages(1) },
       );
+      return new Response(recordWhenDone(events, meter), {
+        headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+      });
     }
 
-    return new Response(response.body, {
+    // A request the provider rejects outright isn't counted
+    const response = await metered.send({ model: selectedModel, messages, temperature, maxTokens });
+    if (!response.ok) throw await providerError(provider, response);
+
+    return new Response(recordWhenDone(metered.toOpenAIStream(response), meter), {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
-    console.error("Error in query-scene:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    if (error instanceof ApiError) {
+      if (error.status >= 500) console.error(`Error in query-scene (${error.code}):`, error.message);
+    } else {
+      console.error("Error in query-scene:", error);
+    }
+    return errorResponse(toApiError(error), corsHeaders);
   }
 });
@@ -0,0 +1,152 @@
+import { isUuid } from "../_shared/auth.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { ApiError } from "../_shared/errors.ts";
+import { resolveModel, type VlmProvider } from "./providers.ts";
+
+/**
+ * Analysis profiles (`analysis_profiles`): the system prompt, default model
+ * parameters and quick prompts for a kind of site. Prompts are only read
+ * here, never sent to the client. Profile prompts describe the analyst, not
+ * the input: query-scene appends what it is being shown (a snapshot, a frame
+ * sequence, one of several cameras).
+ */
+
+/** Used when no profile applies; matches the seeded "General" profile */
+export const DEFAULT_SYSTEM_PROMPT = `You are an expert video surveillance analyst. Answer questions about camera images concisely and accurately, based on what you can see. If you cannot determine the answer from the images, say so honestly.`;
+
+export interface AnalysisProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  systemPrompt: string;
+  quickPrompts: string[];
+  model: string | null;
+  temperature: number | null;
+  maxTokens: number | null;
+  isDefault: boolean;
+}
+
+/** What the client sees of a profile */
+export type ProfileSummary = Pick<AnalysisProfile, "id" | "name" | "description" | "quickPrompts" | "model">;
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  system_prompt: string;
+  quick_prompts: string[] | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  is_default: boolean;
+}
+
+const PROFILE_COLUMNS = "id, name, description, system_prompt, quick_prompts, model, temperature, max_tokens, is_default";
+
+function toProfile(row: ProfileRow): AnalysisProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    systemPrompt: row.system_prompt,
+    quickPrompts: row.quick_prompts ?? [],
+    model: row.model,
+    temperature: row.temperature,
+    maxTokens: row.max_tokens,
+    isDefault: row.is_default,
+  };
+}
+
+export function toProfileSummary(profile: AnalysisProfile): ProfileSummary {
+  const { id, name, description, quickPrompts, model } = profile;
+  return { id, name, description, quickPrompts, model };
+}
+
+export async function listProfiles(): Promise<AnalysisProfile[]> {
+  const { data, error } = await createServiceClient()
+    .from("analysis_profiles")
+    .select(PROFILE_COLUMNS)
+    .order("name");
+  if (error) throw new Error(`Failed to load analysis profiles: ${error.message}`);
+  return ((data ?? []) as ProfileRow[]).map(toProfile);
+}
+
+async function getProfile(profileId: string): Promise<AnalysisProfile> {
+  if (!isUuid(profileId)) throw new ApiError("invalid_input", "Invalid profile id");
+  const { data, error } = await createServiceClient()
+    .from("analysis_profiles")
+    .select(PROFILE_COLUMNS)
+    .eq("id", profileId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load analysis profile: ${error.message}`);
+  if (!data) throw new ApiError("not_found", "Analysis profile not found");
+  return toProfile(data as ProfileRow);
+}
+
+/**
+ * The profile assigned to a camera: a camera assignment beats a camera-type
+ * assignment, and a server-specific one beats a global one. Falls back to the
+ * default profile, or null when there is none.
+ */
+export async function findAssignedProfileId(
+  serverId: string | null,
+  cameraId?: number,
+  cameraType?: string,
+): Promise<string | null> {
+  const service = createServiceClient();
+
+  if (cameraId !== undefined || cameraType) {
+    const targets = [
+      ...(cameraId !== undefined ? [`camera_id.eq.${cameraId}`] : []),
+      // Quoted so camera types with commas or dots can't alter the filter
+      ...(cameraType ? [`camera_type.eq."${cameraType.replace(/["\\]/g, "")}"`] : []),
+    ];
+    let query = service
+      .from("analysis_profile_assignments")
+      .select("profile_id, server_id, camera_id, camera_type")
+      .or(targets.join(","));
+    query = serverId ? query.or(`server_id.eq.${serverId},server_id.is.null`) : query.is("server_id", null);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load profile assignments: ${error.message}`);
+
+    const rows = (data ?? []) as Array<{ profile_id: string; server_id: string | null; camera_id: number | null }>;
+    const rank = (row: typeof rows[number]) => (row.camera_id !== null ? 0 : 2) + (row.server_id === serverId ? 0 : 1);
+    const best = rows.sort((a, b) => rank(a) - rank(b))[0];
+    if (best) return best.profile_id;
+  }
+
+  const { data } = await service.from("analysis_profiles").select("id").eq("is_default", true).maybeSingle();
+  return data?.id ?? null;
+}
+
+/**
+ * Resolve the profile for a query: the one the client picked by id, otherwise
+ * the camera's assigned profile. Null means the built-in prompt.
+ */
+export async function resolveProfile(options: {
+  profileId?: unknown;
+  serverId: string | null;
+  cameraId?: number;
+  cameraType?: string;
+}): Promise<AnalysisProfile | null> {
+  if (options.profileId !== undefined && options.profileId !== null && options.profileId !== "") {
+    if (typeof options.profileId !== "string") throw new ApiError("invalid_input", "Invalid profile id");
+    return getProfile(options.profileId);
+  }
+  const assignedId = await findAssignedProfileId(options.serverId, options.cameraId, options.cameraType);
+  return assignedId ? getProfile(assignedId) : null;
+}
+
+/**
+ * The model for a query: the client's choice, else the profile's model when
+ * the provider allows it, else the provider default.
+ */
+export function selectModel(provider: VlmProvider, requested: unknown, profile: AnalysisProfile | null): string {
+  if (requested !== undefined && requested !== null && requested !== "") return resolveModel(provider, requested);
+  if (profile?.model) {
+    if (provider.models.includes(profile.model)) return profile.model;
+    console.warn(`Profile "${profile.name}" uses model ${profile.model}, which is not allowed; using the default`);
+  }
+  return provider.defaultModel;
+}
@@ -0,0 +1,501 @@
+import { ApiError, parseRetryAfter } from "../_shared/errors.ts";
+
+/**
+ * VLM providers for query-scene. Each provider turns a provider-neutral chat
+ * request into its own HTTP call and adapts its stream back to the
+ * OpenAI-style SSE chunks (`choices[0].delta.content`) the client parses.
+ * Tool calls are adapted the same way, to `choices[0].delta.tool_calls`.
+ *
+ * Selected with the VLM_PROVIDER secret:
+ *   lovable    Lovable AI gateway (default; uses LOVABLE_API_KEY)
+ *   openai     Any OpenAI-compatible endpoint: OpenAI, vLLM, Ollama, LM Studio...
+ *   anthropic  Anthropic Messages API
+ * VLM_BASE_URL, VLM_API_KEY, VLM_MODEL and VLM_MODELS override the defaults.
+ * VLM_STREAM_USAGE (true/false) asks OpenAI-compatible servers for token
+ * counts; on by default for lovable only, since some servers reject it.
+ */
+
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments, as the model wrote them */
+  arguments: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | ContentPart[];
+  /** Assistant turns: the tools the model called */
+  toolCalls?: ToolCall[];
+  /** Tool turns: the call this result answers */
+  toolCallId?: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  /** Tools the model may call */
+  tools?: ToolDefinition[];
+  maxTokens?: number;
+  temperature?: number;
+  /** Ask for a JSON object, where the provider supports it (the prompt must still ask for JSON) */
+  jsonMode?: boolean;
+}
+
+/** Token counts a provider reported for one call */
+export interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface VlmProvider {
+  id: string;
+  /** Models clients may request; the first is the default */
+  models: string[];
+  defaultModel: string;
+  send(request: ChatRequest, signal?: AbortSignal): Promise<Response>;
+  /**
+   * Convert a successful streaming response to OpenAI-style SSE. `onUsage`
+   * is called once the stream reports its token counts (not every server does).
+   */
+  toOpenAIStream(response: Response, onUsage?: (usage: Usage) => void): ReadableStream<Uint8Array>;
+}
+
+interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string | null;
+  models: string[];
+  /** Send `stream_options.include_usage`; servers that don't know it may answer 400 */
+  streamUsage?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+function sseDelta(delta: Record<string, unknown>): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify({ choices: [{ delta }] })}\n\n`);
+}
+
+/**
+ * Re-emit an SSE body event by event. `onEvent` returns the chunks to
+ * forward for each `data:` payload.
+ */
+function transformSse(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (data: string, event: string | null) => Uint8Array[],
+  onEnd: () => Uint8Array[] = () => [],
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | null = null;
+
+  const processLine = (rawLine: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (line === "") {
+      event = null;
+      return;
+    }
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+      return;
+    }
+    if (!line.startsWith("data:")) return;
+    for (const chunk of onEvent(line.slice(5).trim(), event)) controller.enqueue(chunk);
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        processLine(buffer.slice(0, newlineIndex), controller);
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+    },
+    flush(controller) {
+      if (buffer) processLine(buffer, controller);
+      for (const chunk of onEnd()) controller.enqueue(chunk);
+    },
+  }));
+}
+
+function toOpenAIMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function createOpenAICompatibleProvider(id: string, config: ProviderConfig): VlmProvider {
+  return {
+    id,
+    models: config.models,
+    defaultModel: config.models[0],
+    send(request, signal) {
+      return fetch(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages.map(toOpenAIMessage),
+          ...(request.tools?.length
+            ? { tools: request.tools.map((tool) => ({ type: "function", function: tool })) }
+            : {}),
+          stream: true,
+          // Token counts arrive in a final chunk with empty `choices`
+          ...(config.streamUsage ? { stream_options: { include_usage: true } } : {}),
+          ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(request.jsonMode ? { response_format: { type: "json_object" } } : {}),
+        }),
+        signal,
+      });
+    },
+    toOpenAIStream(response, onUsage) {
+      // Already the format the client expects; only peek at the usage chunk
+      if (!onUsage) return response.body!;
+      return transformSse(response.body!, (data) => {
+        if (data !== "[DONE]") {
+          try {
+            const usage = JSON.parse(data).usage;
+            if (usage) onUsage({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 });
+          } catch {
+            /* forward malformed payloads untouched */
+          }
+        }
+        return [encoder.encode(`data: ${data}\n\n`)];
+      });
+    },
+  };
+}
+
+function toAnthropicBlocks(content: string | ContentPart[]): Array<Record<string, unknown>> {
+  // Anthropic rejects empty text blocks
+  if (typeof content === "string") return content ? [{ type: "text", text: content }] : [];
+  return content.map((part) => {
+    if (part.type === "text") return { type: "text", text: part.text };
+    const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+    return match
+      ? { type: "image", source: { type: "base64", media_type: match[1], data: match[2] } }
+      : { type: "image", source: { type: "url", url: part.image_url.url } };
+  });
+}
+
+function parseToolArguments(raw: string): unknown {
+  try {
+    return JSON.parse(raw || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Anthropic wants tool calls as `tool_use` blocks and their results as
+ * `tool_result` blocks in the next user turn, and consecutive turns of the
+ * same role merged.
+ */
+function toAnthropicMessages(messages: ChatMessage[]) {
+  const result: Array<{ role: "user" | "assistant"; content: Array<Record<string, unknown>> }> = [];
+  for (const message of messages) {
+    if (message.role === "system") continue;
+    const role = message.role === "assistant" ? "assistant" : "user";
+    const blocks = message.role === "tool"
+      ? [{ type: "tool_result", tool_use_id: message.toolCallId, content: toAnthropicBlocks(message.content) }]
+      : [
+        ...toAnthropicBlocks(message.content),
+        ...(message.toolCalls ?? []).map((call) => ({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: parseToolArguments(call.arguments),
+        })),
+      ];
+    const last = result[result.length - 1];
+    if (last?.role === role) last.content.push(...blocks);
+    else result.push({ role, content: blocks });
+  }
+  return result;
+}
+
+function createAnthropicProvider(config: ProviderConfig): VlmProvider {
+  return {
+    id: "anthropic",
+    models: config.models,
+    defaultModel: config.models[0],
+    send(request, signal) {
+      const system = request.messages
+        .filter((m) => m.role === "system")
+        .map((m) => (typeof m.content === "string" ? m.content : ""))
+        .join("\n\n");
+      return fetch(`${config.baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "x-api-key": config.apiKey ?? "",
+          "anthropic-version": "2023-06-01",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: request.model,
+          system: system || undefined,
+          messages: toAnthropicMessages(request.messages),
+          ...(request.tools?.length
+            ? {
+              tools: request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+              })),
+            }
+            : {}),
+          max_tokens: request.maxTokens ?? 1024,
+          stream: true,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        }),
+        signal,
+      });
+    },
+    toOpenAIStream(response, onUsage) {
+      // Input tokens come with message_start, output tokens with message_delta
+      const usage: Usage = { promptTokens: 0, completionTokens: 0 };
+      // Content block index -> OpenAI tool call index
+      const toolIndexes = new Map<number, number>();
+      return transformSse(
+        response.body!,
+        (data) => {
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed.type === "content_block_delta" && parsed.delta?.type === "text_delta") {
+              return [sseDelta({ content: parsed.delta.text })];
+            }
+            if (parsed.type === "content_block_start" && parsed.content_block?.type === "tool_use") {
+              const index = toolIndexes.size;
+              toolIndexes.set(parsed.index, index);
+              const { id, name } = parsed.content_block;
+              return [sseDelta({ tool_calls: [{ index, id, type: "function", function: { name, arguments: "" } }] })];
+            }
+            if (parsed.type === "content_block_delta" && parsed.delta?.type === "input_json_delta") {
+              const index = toolIndexes.get(parsed.index);
+              if (index === undefined) return [];
+              return [sseDelta({ tool_calls: [{ index, function: { arguments: parsed.delta.partial_json } }] })];
+            }
+            if (parsed.type === "message_start") usage.promptTokens = parsed.message?.usage?.input_tokens ?? 0;
+            if (parsed.type === "message_delta") usage.completionTokens = parsed.usage?.output_tokens ?? 0;
+          } catch {
+            /* ignore keep-alives and partial payloads */
+          }
+          return [];
+        },
+        () => {
+          onUsage?.(usage);
+          return [encoder.encode("data: [DONE]\n\n")];
+        },
+      );
+    },
+  };
+}
+
+function parseModels(raw: string | undefined, fallback: string): string[] {
+  const models = (raw ?? "").split(",").map((m) => m.trim()).filter(Boolean);
+  return models.length ? models : [fallback];
+}
+
+/** Build the provider configured through function secrets. */
+export function getProvider(): VlmProvider {
+  const id = (Deno.env.get("VLM_PROVIDER") ?? "lovable").toLowerCase();
+  const env = (name: string) => Deno.env.get(name) || undefined;
+  const flag = (name: string, fallback: boolean) => {
+    const value = env(name)?.toLowerCase();
+    return value === undefined ? fallback : value === "true" || value === "1";
+  };
+
+  // VLM_MODEL is the default; VLM_MODELS lists the others clients may pick
+  const models = (fallback: string) => {
+    const defaultModel = env("VLM_MODEL") ?? fallback;
+    return [defaultModel, ...parseModels(env("VLM_MODELS"), defaultModel).filter((m) => m !== defaultModel)];
+  };
+
+  switch (id) {
+    case "lovable": {
+      const apiKey = env("VLM_API_KEY") ?? env("LOVABLE_API_KEY");
+      if (!apiKey) throw new ApiError("server_not_configured", "LOVABLE_API_KEY is not configured");
+      return createOpenAICompatibleProvider("lovable", {
+        baseUrl: (env("VLM_BASE_URL") ?? "https://ai.gateway.lovable.dev/v1").replace(/\/+$/, ""),
+        apiKey,
+        models: models("google/gemini-2.5-flash"),
+        streamUsage: flag("VLM_STREAM_USAGE", true),
+      });
+    }
+    case "openai": {
+      const baseUrl = env("VLM_BASE_URL");
+      if (!baseUrl) throw new ApiError("server_not_configured", "VLM_BASE_URL is not configured");
+      // Self-hosted servers (Ollama, vLLM) usually don't need a key
+      return createOpenAICompatibleProvider("openai", {
+        baseUrl: baseUrl.replace(/\/+$/, ""),
+        apiKey: env("VLM_API_KEY") ?? null,
+        models: models("gpt-4o-mini"),
+        streamUsage: flag("VLM_STREAM_USAGE", false),
+      });
+    }
+    case "anthropic": {
+      const apiKey = env("VLM_API_KEY");
+      if (!apiKey) throw new ApiError("server_not_configured", "VLM_API_KEY is not configured");
+      return createAnthropicProvider({
+        baseUrl: (env("VLM_BASE_URL") ?? "https://api.anthropic.com/v1").replace(/\/+$/, ""),
+        apiKey,
+        models: models("claude-sonnet-4-5"),
+      });
+    }
+    default:
+      throw new ApiError("server_not_configured", `Unknown VLM_PROVIDER "${id}"`);
+  }
+}
+
+/** The same provider, reporting the usage of every stream it converts. */
+export function withUsage(provider: VlmProvider, onUsage: (usage: Usage) => void): VlmProvider {
+  return { ...provider, toOpenAIStream: (response) => provider.toOpenAIStream(response, onUsage) };
+}
+
+/**
+ * The same provider, with every request aborted by `signal` (e.g. the
+ * client's request signal, so a cancelled question stops the upstream call).
+ */
+export function withSignal(provider: VlmProvider, signal: AbortSignal): VlmProvider {
+  return { ...provider, send: (request, requestSignal) => provider.send(request, requestSignal ?? signal) };
+}
+
+/** Resolve a client-requested model against the approved list. */
+export function resolveModel(provider: VlmProvider, requested: unknown): string {
+  if (requested === undefined || requested === null || requested === "") return provider.defaultModel;
+  if (typeof requested !== "string" || !provider.models.includes(requested)) {
+    throw new ApiError("invalid_input", `Model not allowed: ${String(requested)}`, {
+      details: { allowedModels: provider.models },
+    });
+  }
+  return requested;
+}
+
+/** Map a failed provider response to the shared error model. */
+export async function providerError(provider: VlmProvider, response: Response): Promise<ApiError> {
+  if (response.status === 429) {
+    await response.body?.cancel();
+    return new ApiError("rate_limited", "Rate limit exceeded. Please try again later.", {
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    });
+  }
+  if (response.status === 402) {
+    await response.body?.cancel();
+    return new ApiError("payment_required", "Payment required. Please add credits.");
+  }
+  const errorText = await response.text();
+  console.error(`VLM provider error (${provider.id}):`, response.status, errorText);
+  return new ApiError("upstream_http_error", "Failed to query scene", {
+    retryable: response.status >= 500,
+    details: { upstreamStatus: response.status },
+  });
+}
+
+/** Normalize an error thrown while querying the provider. */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  // fetch() network failure reaching the VLM provider
+  if (error instanceof TypeError) return new ApiError("upstream_unreachable", "AI provider is unreachable");
+  return new ApiError("internal_error", error instanceof Error ? error.message : "Unknown error");
+}
+
+interface StreamDelta {
+  content?: string;
+  tool_calls?: Array<{ index: number; id?: string; function?: { name?: string; arguments?: string } }>;
+}
+
+/** Yield the OpenAI-style deltas of a successful streaming response. */
+async function* streamChunks(provider: VlmProvider, response: Response): AsyncGenerator<StreamDelta> {
+  const reader = provider.toOpenAIStream(response).getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      if (!line.startsWith("data:")) continue;
+      const data = line.slice(5).trim();
+      if (data === "[DONE]") return;
+      let delta: StreamDelta | undefined;
+      try {
+        delta = JSON.parse(data).choices?.[0]?.delta;
+      } catch {
+        /* ignore malformed chunks */
+      }
+      if (delta) yield delta;
+    }
+  }
+}
+
+/** Yield the text deltas of a successful streaming response. */
+export async function* streamDeltas(provider: VlmProvider, response: Response): AsyncGenerator<string> {
+  for await (const delta of streamChunks(provider, response)) {
+    if (delta.content) yield delta.content;
+  }
+}
+
+/** One model reply: its text and the tools it called. */
+export interface ChatTurn {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+/** Read a reply, passing text deltas to `onText` as they arrive and assembling tool calls. */
+export async function readTurn(
+  provider: VlmProvider,
+  response: Response,
+  onText?: (content: string) => void,
+): Promise<ChatTurn> {
+  let text = "";
+  const calls: ToolCall[] = [];
+  for await (const delta of streamChunks(provider, response)) {
+    if (delta.content) {
+      text += delta.content;
+      onText?.(delta.content);
+    }
+    for (const part of delta.tool_calls ?? []) {
+      const call = calls[part.index] ??= { id: "", name: "", arguments: "" };
+      if (part.id) call.id = part.id;
+      if (part.function?.name) call.name += part.function.name;
+      if (part.function?.arguments) call.arguments += part.function.arguments;
+    }
+  }
+  // Some servers omit call ids; the follow-up still needs one per call
+  return {
+    text,
+    toolCalls: calls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `call_${i}` })),
+  };
+}
@@ -0,0 +1,157 @@
+import { ApiError } from "../_shared/errors.ts";
+import {
+  type DetectedObject, encodeSceneEvent, type SceneEvent, type StructuredAnswer,
+} from "../_shared/sceneEvents.ts";
+import { type ChatMessage, providerError, streamDeltas, toApiError, type VlmProvider } from "./providers.ts";
+
+export const STRUCTURED_INSTRUCTIONS = `Reply with a single JSON object and nothing else, matching this schema:
+{
+  "answer": string,              // short answer to the question
+  "verdict": "yes" | "no" | "unknown",  // for yes/no questions, otherwise "unknown"
+  "confidence": number,          // 0 to 1, confidence in the verdict
+  "counts": { [label: string]: number },  // number of objects per label, e.g. {"person": 3}
+  "objects": [{ "label": string, "box": [x, y, width, height], "confidence": number }]
+}
+Box coordinates are fractions of the image size (0 to 1), with x and y the top-left corner. List only objects relevant to the question.`;
+
+function isUnit(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+/** Pull the JSON object out of a model reply, tolerating code fences and surrounding text. */
+function extractJson(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end < start) throw new Error("no JSON object found");
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+/**
+ * Validate a model reply against the StructuredAnswer schema. Boxes are
+ * clamped to the image; anything else out of range is rejected with the
+ * reason, so the model can be asked to correct it.
+ */
+export function parseStructuredAnswer(text: string): StructuredAnswer {
+  const raw = extractJson(text) as Record<string, unknown>;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("expected a JSON object");
+
+  if (typeof raw.answer !== "string") throw new Error('"answer" must be a string');
+  const verdict = raw.verdict ?? "unknown";
+  if (verdict !== "yes" && verdict !== "no" && verdict !== "unknown") {
+    throw new Error('"verdict" must be "yes", "no" or "unknown"');
+  }
+  if (!isUnit(raw.confidence)) throw new Error('"confidence" must be a number between 0 and 1');
+
+  const counts: Record<string, number> = {};
+  if (raw.counts !== undefined) {
+    if (!raw.counts || typeof raw.counts !== "object" || Array.isArray(raw.counts)) {
+      throw new Error('"counts" must be an object');
+    }
+    for (const [label, count] of Object.entries(raw.counts)) {
+      if (typeof count !== "number" || !Number.isInteger(count) || count < 0) {
+        throw new Error(`count for "${label}" must be a non-negative integer`);
+      }
+      counts[label] = count;
+    }
+  }
+
+  const objects: DetectedObject[] = [];
+  if (raw.objects !== undefined) {
+    if (!Array.isArray(raw.objects)) throw new Error('"objects" must be an array');
+    raw.objects.forEach((item, index) => {
+      const { label, box, confidence } = (item ?? {}) as Record<string, unknown>;
+      if (typeof label !== "string" || !label) throw new Error(`objects[${index}].label must be a string`);
+      if (!Array.isArray(box) || box.length !== 4 || !box.every((n) => typeof n === "number" && Number.isFinite(n))) {
+        throw new Error(`objects[${index}].box must be [x, y, width, height]`);
+      }
+      if (confidence !== undefined && !isUnit(confidence)) {
+        throw new Error(`objects[${index}].confidence must be between 0 and 1`);
+      }
+      const [x, y, w, h] = box.map((n: number) => Math.min(1, Math.max(0, n)));
+      if (w === 0 || h === 0) return;
+      objects.push({
+        label,
+        box: [x, y, Math.min(w, 1 - x), Math.min(h, 1 - y)],
+        confidence: confidence as number | undefined,
+      });
+    });
+  }
+
+  return { answer: raw.answer, verdict, confidence: raw.confidence, counts, objects };
+}
+
+async function collect(provider: VlmProvider, model: string, messages: ChatMessage[]): Promise<string> {
+  const response = await provider.send({ model, messages, jsonMode: true, temperature: 0 });
+  if (!response.ok) throw await providerError(provider, response);
+  let text = "";
+  for await (const content of streamDeltas(provider, response)) text += content;
+  return text;
+}
+
+/**
+ * Get a schema-valid answer. An invalid reply is sent back once with the
+ * validation error for the model to correct.
+ */
+export async function answerStructured(
+  provider: VlmProvider,
+  model: string,
+  messages: ChatMessage[],
+  onStatus: (message: string) => void = () => {},
+): Promise<StructuredAnswer> {
+  const reply = await collect(provider, model, messages);
+  try {
+    return parseStructuredAnswer(reply);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.warn(`Structured answer rejected (${reason}), asking for a correction`);
+    onStatus("Correcting invalid answer");
+
+    const corrected = await collect(provider, model, [
+      ...messages,
+      { role: "assistant", content: reply },
+      { role: "user", content: `That reply was not valid: ${reason}. Reply with only the corrected JSON object.` },
+    ]);
+    try {
+      return parseStructuredAnswer(corrected);
+    } catch (retryError) {
+      throw new ApiError("upstream_http_error", "The model did not return a valid structured answer", {
+        retryable: true,
+        details: { reason: retryError instanceof Error ? retryError.message : String(retryError) },
+      });
+    }
+  }
+}
+
+/** Run a structured query and report it as `status`, `structured` and `done` (or `error`) events. */
+export function structuredEventStream(
+  run: (onStatus: (message: string) => void) => Promise<StructuredAnswer>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit = (event: SceneEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeSceneEvent(event)));
+      };
+      try {
+        emit({ type: "status", message: "Analyzing" });
+        emit({ type: "structured", result: await run((message) => emit({ type: "status", message })) });
+        emit({ type: "done" });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Structured query failed:", error);
+        emit({ type: "error", error: toApiError(error).toBody() });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // The client went away; the upstream request is aborted by the request signal
+      cancelled = true;
+    },
+  });
+}
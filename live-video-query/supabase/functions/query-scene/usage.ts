@@ -0,0 +1,133 @@
+import { createServiceClient } from "../_shared/supabase.ts";
+import { ApiError } from "../_shared/errors.ts";
+import type { Usage } from "./providers.ts";
+
+/**
+ * Usage accounting (`vlm_usage`) and quota enforcement (`vlm_quotas`). One
+ * row is written per question, summing every provider call it took (each
+ * camera plus the summary, a structured correction, every agent turn).
+ */
+
+export type QueryMode = "snapshot" | "sequence" | "structured" | "cameras" | "agent";
+
+export interface UsageEntry {
+  userId: string;
+  userEmail?: string;
+  serverId: string | null;
+  cameraId?: number;
+  provider: string;
+  model: string;
+  mode: QueryMode;
+  imageCount: number;
+}
+
+export interface UsageMeter {
+  /** Pass to `withUsage`; adds one provider call's tokens */
+  add(usage: Usage): void;
+  /** Count images sent after the question, e.g. snapshots fetched by agent tools */
+  addImages(count: number): void;
+  /** Write the usage row. Failures are logged, never surfaced to the caller. */
+  record(): Promise<void>;
+}
+
+interface QuotaUsageRow {
+  scope: "user" | "team";
+  period: "day" | "month";
+  token_limit: number | null;
+  query_limit: number | null;
+  tokens_used: number;
+  queries_used: number;
+  resets_at: string;
+}
+
+/**
+ * Reject the question when any quota covering the user is used up. This is
+ * a soft limit: the check reads usage recorded so far and a question's row
+ * is only written when it finishes, so concurrent questions can overshoot.
+ * A question's tokens aren't known until then, so they can't be reserved.
+ */
+export async function assertWithinQuota(userId: string): Promise<void> {
+  const { data, error } = await createServiceClient().rpc("vlm_quota_usage", { p_user_id: userId });
+  if (error) throw new Error(`Failed to check quotas: ${error.message}`);
+
+  for (const quota of (data ?? []) as QuotaUsageRow[]) {
+    const tokensExceeded = quota.token_limit !== null && quota.tokens_used >= quota.token_limit;
+    const queriesExceeded = quota.query_limit !== null && quota.queries_used >= quota.query_limit;
+    if (!tokensExceeded && !queriesExceeded) continue;
+
+    const what = tokensExceeded ? "token" : "query";
+    const who = quota.scope === "team" ? "Your team's" : "Your";
+    const period = quota.period === "day" ? "daily" : "monthly";
+    throw new ApiError("quota_exceeded", `${who} ${period} ${what} quota is used up`, {
+      retryAfterMs: Math.max(0, Date.parse(quota.resets_at) - Date.now()),
+      details: {
+        scope: quota.scope,
+        period: quota.period,
+        limit: tokensExceeded ? quota.token_limit : quota.query_limit,
+        used: tokensExceeded ? quota.tokens_used : quota.queries_used,
+        resetsAt: quota.resets_at,
+      },
+    });
+  }
+}
+
+/** Start timing a question; latency runs until `record`. */
+export function createUsageMeter(entry: UsageEntry): UsageMeter {
+  const startedAt = Date.now();
+  const totals: Usage = { promptTokens: 0, completionTokens: 0 };
+  let imageCount = entry.imageCount;
+  let recorded = false;
+
+  return {
+    add(usage) {
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+    },
+    addImages(count) {
+      imageCount += count;
+    },
+    async record() {
+      if (recorded) return;
+      recorded = true;
+      const { error } = await createServiceClient().from("vlm_usage").insert({
+        user_id: entry.userId,
+        user_email: entry.userEmail ?? null,
+        server_id: entry.serverId,
+        camera_id: entry.cameraId ?? null,
+        provider: entry.provider,
+        model: entry.model,
+        mode: entry.mode,
+        prompt_tokens: totals.promptTokens,
+        completion_tokens: totals.completionTokens,
+        image_count: imageCount,
+        latency_ms: Date.now() - startedAt,
+      });
+      if (error) console.error("Failed to record usage:", error.message);
+    },
+  };
+}
+
+/** Record usage once `stream` has been fully sent, or the client went away. */
+export function recordWhenDone(stream: ReadableStream<Uint8Array>, meter: UsageMeter): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          await meter.record();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        controller.error(error);
+        await meter.record();
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      await meter.record();
+    },
+  });
+}
@@ -0,0 +1,55 @@
+import { ApiError, isErrorCode } from "../_shared/errors.ts";
+
+/**
+ * Vaidio API calls made on behalf of the caller. They go through vaidio-proxy
+ * with the caller's own token, so the server policy, role and camera scope
+ * apply exactly as if the user had made the request.
+ */
+
+const VAIDIO_TIMEOUT_MS = 5000;
+
+export interface VaidioCaller {
+  req: Request;
+  serverId: string | undefined;
+}
+
+export async function callVaidio<T>(
+  caller: VaidioCaller,
+  endpoint: string,
+  { returnImage = false, timeoutMs = VAIDIO_TIMEOUT_MS }: { returnImage?: boolean; timeoutMs?: number } = {},
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/vaidio-proxy`, {
+      method: "POST",
+      headers: {
+        Authorization: caller.req.headers.get("Authorization") ?? "",
+        apikey: caller.req.headers.get("apikey") ?? Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        endpoint,
+        ...(returnImage ? { returnImage: true } : {}),
+        ...(caller.serverId ? { serverId: caller.serverId } : {}),
+      }),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      // Keep the proxy's error code (e.g. forbidden_endpoint for a viewer)
+      const body = await response.json().catch(() => null);
+      const code = isErrorCode(body?.code) ? body.code : "upstream_http_error";
+      throw new ApiError(code, body?.error || `Vaidio request failed: ${response.status}`, {
+        status: response.status,
+      });
+    }
+    return await response.json();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw new ApiError("upstream_timeout", `Vaidio request timed out: ${endpoint}`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
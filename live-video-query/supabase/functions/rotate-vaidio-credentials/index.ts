@@ -0,0 +1,75 @@
+import { isServiceRoleRequest } from "../_shared/auth.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+import { decryptSecret, encryptSecret, isEncryptedSecret, needsReencryption, redactSecrets } from "../_shared/credentials.ts";
+
+/**
+ * Encrypts plaintext `vaidio_servers.password` values and re-encrypts values
+ * written under VAIDIO_CREDENTIALS_KEY_PREVIOUS with the current key.
+ *
+ * This is an operator task, so it only accepts the service role key:
+ *   curl -X POST -H "Authorization: Bearer $SERVICE_ROLE_KEY" \
+ *     https://<project>.supabase.co/functions/v1/rotate-vaidio-credentials
+ */
+Deno.serve(async (req) => {
+  const jsonHeaders = { 'Content-Type': 'application/json' };
+
+  if (req.method !== 'POST') {
+    return new Response(JSON.stringify({ error: 'Method not allowed' }), { status: 405, headers: jsonHeaders });
+  }
+
+  if (!(await isServiceRoleRequest(req))) {
+    return new Response(JSON.stringify({ error: 'Forbidden' }), { status: 403, headers: jsonHeaders });
+  }
+
+  try {
+    const sb = createServiceClient();
+    const { data, error } = await sb
+      .from('vaidio_servers')
+      .select('id, password, password_encrypted');
+    if (error) throw new Error('Failed to load servers');
+
+    const summary = { encrypted: 0, rotated: 0, unchanged: 0, failed: [] as string[] };
+
+    for (const row of data ?? []) {
+      try {
+        if (!(await needsReencryption(row.password_encrypted))) {
+          // Already current; make sure no plaintext copy lingers
+          if (row.password) {
+            await sb.from('vaidio_servers').update({ password: null }).eq('id', row.id);
+          }
+          summary.unchanged++;
+          continue;
+        }
+
+        const wasEncrypted = isEncryptedSecret(row.password_encrypted);
+        const plaintext = wasEncrypted ? await decryptSecret(row.password_encrypted) : row.password;
+        if (!plaintext) {
+          summary.failed.push(row.id);
+          continue;
+        }
+
+        const { error: updateError } = await sb
+          .from('vaidio_servers')
+          .update({ password_encrypted: await encryptSecret(plaintext), password: null })
+          .eq('id', row.id);
+        if (updateError) throw new Error('Update failed');
+
+        if (wasEncrypted) summary.rotated++;
+        else summary.encrypted++;
+      } catch (rowError) {
+        console.error(
+          `[rotate-vaidio-credentials] Server ${row.id}:`,
+          rowError instanceof Error ? redactSecrets(rowError.message) : 'Unknown error',
+        );
+        summary.failed.push(row.id);
+      }
+    }
+
+    console.log(`[rotate-vaidio-credentials] ${JSON.stringify(summary)}`);
+    return new Response(JSON.stringify(summary), { status: 200, headers: jsonHeaders });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? redactSecrets(error.message) : 'Unknown error';
+    console.error('[rotate-vaidio-credentials]', message);
+    return new Response(JSON.stringify({ error: message }), { status: 500, headers: jsonHeaders });
+  }
+});
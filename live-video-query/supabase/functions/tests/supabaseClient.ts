@@ -0,0 +1,14 @@
+/**
+ * Stands in for src/integrations/supabase/client.ts in the client tests (see
+ * import_map.json). That module reads Vite's `import.meta.env`; this one
+ * points the client at the test's local server through TEST_SUPABASE_URL.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+
+export const supabase = createClient(Deno.env.get('TEST_SUPABASE_URL')!, 'test-anon-key', {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+});
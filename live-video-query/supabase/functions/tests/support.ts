@@ -0,0 +1,85 @@
+/**
+ * Shared setup for the integration tests: the mock Vaidio server on a local
+ * port with its control API, and vaidio-proxy's handler with sign-in and the
+ * server lookup stubbed out, since there is no Supabase project to ask.
+ */
+
+import { handler as mockHandler } from "../../../mock-vaidio/server.ts";
+import { AuthError, type ServerAccess } from "../_shared/auth.ts";
+import { createProxyHandler } from "../vaidio-proxy/handler.ts";
+import { DEFAULT_ENDPOINT_POLICY, type EndpointPolicy } from "../vaidio-proxy/policy.ts";
+import { clearTokenCache } from "../vaidio-proxy/session.ts";
+import type { ServerCreds } from "../vaidio-proxy/upstream.ts";
+
+export const SERVER_ID = '00000000-0000-4000-8000-000000000001';
+
+export interface LoggedRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+export interface MockVaidio {
+  baseUrl: string;
+  /** Call the mock's control API, e.g. `control('scenario', { sendEtags: false })` */
+  control(action: string, body?: unknown): Promise<unknown>;
+  /** Requests the mock has received since the last reset */
+  requests(): Promise<LoggedRequest[]>;
+  /** Credentials for the mock, as `resolveServer` would return them */
+  server(policy?: EndpointPolicy): ServerCreds;
+  /** Restore the default scenario and drop the proxy's cached tokens */
+  reset(): Promise<void>;
+  shutdown(): Promise<void>;
+}
+
+export function startMockVaidio(): MockVaidio {
+  const listener = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, mockHandler);
+  const baseUrl = `http://127.0.0.1:${listener.addr.port}`;
+
+  const control = async (action: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl}/__mock/${action}`, {
+      method: action === 'requests' ? 'GET' : 'POST',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return res.json();
+  };
+
+  return {
+    baseUrl,
+    control,
+    requests: async () =>
+      (await control('requests') as LoggedRequest[]).map(({ method, path, status }) => ({ method, path, status })),
+    server: (policy = DEFAULT_ENDPOINT_POLICY) => ({
+      url: baseUrl,
+      username: 'admin',
+      getPassword: async () => 'admin',
+      policy,
+    }),
+    reset: async () => {
+      await control('reset');
+      clearTokenCache();
+    },
+    shutdown: () => listener.shutdown(),
+  };
+}
+
+/** Grants keyed by bearer token; the token doubles as the user id. */
+export type TestGrants = Record<string, ServerAccess>;
+
+/** vaidio-proxy's handler, signing callers in from `grants` and proxying to the mock. */
+export function createTestProxy(mock: MockVaidio, grants: TestGrants): (req: Request) => Promise<Response> {
+  return createProxyHandler({
+    authenticate: async (req) => {
+      const token = (req.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '');
+      if (!(token in grants)) throw new AuthError('Invalid or expired session');
+      return { id: token };
+    },
+    authorizeServer: async (userId, serverId) => {
+      if (serverId !== undefined && serverId !== SERVER_ID) {
+        throw new AuthError('No access to this Vaidio server', 'forbidden');
+      }
+      return grants[userId];
+    },
+    resolveServer: async () => mock.server(),
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * The browser client (src/lib/vaidio.ts) against vaidio-proxy's handler and
+ * the mock Vaidio server, served on a local port the way Supabase serves
+ * edge functions. Covers what the app relies on: camera scoping, data URL
+ * and binary snapshots with 304s, batches, and typed errors.
+ *
+ * Run: npm test
+ */
+
+import assert from "node:assert/strict";
+import { createTestProxy, SERVER_ID, startMockVaidio } from "./support.ts";
+
+// Shaped like a Supabase access token; only the stubbed sign-in reads it
+function testAccessToken(userId: string): string {
+  const part = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  return `${part({ alg: 'HS256', typ: 'JWT' })}.${part({ sub: userId, exp: Math.floor(Date.now() / 1000) + 3600 })}.c2ln`;
+}
+
+Deno.test('vaidio.ts client against vaidio-proxy and the mock Vaidio server', async (t) => {
+  const mock = startMockVaidio();
+  const token = testAccessToken('client-user');
+  const proxy = createTestProxy(mock, {
+    [token]: { serverId: SERVER_ID, role: 'viewer', cameraIds: [1, 2] },
+  });
+
+  const functions = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+    const { pathname } = new URL(req.url);
+    if (pathname === '/auth/v1/user') {
+      return Response.json({ id: 'client-user', aud: 'authenticated', role: 'authenticated' });
+    }
+    if (pathname === '/functions/v1/vaidio-proxy') return proxy(req);
+    return Response.json({ error: 'not_found' }, { status: 404 });
+  });
+  Deno.env.set('TEST_SUPABASE_URL', `http://127.0.0.1:${functions.addr.port}`);
+
+  // The client module reads its Supabase URL when first imported
+  const { supabase } = await import('./supabaseClient.ts');
+  const vaidio = await import('@/lib/vaidio.ts');
+  const { error } = await supabase.auth.setSession({ access_token: token, refresh_token: 'test-refresh' });
+  assert.equal(error, null);
+
+  const step = (name: string, fn: () => Promise<void>) =>
+    t.step(name, async () => {
+      await mock.reset();
+      await fn();
+    });
+
+  const rejection = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      if (error instanceof vaidio.VaidioError) return error;
+      throw error;
+    }
+    throw new Error('Expected a VaidioError');
+  };
+
+  try {
+    await step('lists only the cameras the user is granted', async () => {
+      const cameras = await vaidio.getCameras({ serverId: SERVER_ID });
+
+      assert.deepEqual(cameras.map((c) => c.cameraId), [1, 2]);
+      assert.equal(cameras[0].snapshot, 'api/streaming/1/live.jpg');
+    });
+
+    await step('fetches a snapshot as a data URL', async () => {
+      const image = await vaidio.getCameraSnapshot('api/streaming/1/live.jpg', SERVER_ID);
+
+      assert.match(image, /^data:image\/jpeg;base64,/);
+    });
+
+    await step('fetches binary frames and gets null for an unchanged one', async () => {
+      const frame = await vaidio.getCameraSnapshotBinary(2, null, SERVER_ID);
+      assert.ok(frame);
+      assert.ok(frame.etag);
+      assert.equal(frame.blob.type, 'image/jpeg');
+      assert.match(await vaidio.snapshotFrameToDataUrl(frame), /^data:image\/jpeg;base64,/);
+
+      assert.equal(await vaidio.getCameraSnapshotBinary(2, frame, SERVER_ID), null);
+      vaidio.revokeSnapshotFrame(frame);
+    });
+
+    await step('fetches a batch with per-camera results', async () => {
+      await mock.control('scenario', { failingCameras: { '2': 503 } });
+
+      const { images, results } = await vaidio.getCameraSnapshotsBatch([
+        { cameraId: 1, snapshot: 'api/streaming/1/live.jpg' },
+        { cameraId: 2, snapshot: 'api/streaming/2/live.jpg' },
+      ], SERVER_ID);
+
+      assert.match(images[1], /^data:image\/jpeg;base64,/);
+      assert.equal(images[2], undefined);
+      assert.equal(results[1].status, 'ok');
+      assert.deepEqual({ ...results[2], latencyMs: 0 }, { status: 'http_error', httpStatus: 503, latencyMs: 0 });
+      assert.equal(vaidio.describeSnapshotResult(results[2]), 'Camera returned 503');
+    });
+
+    await step('throws typed errors for what the user may not reach', async () => {
+      const endpoint = await rejection(vaidio.getAlerts({ start: '2026-01-01T00:00:00Z', end: '2026-01-02T00:00:00Z' }));
+      assert.equal(endpoint.code, 'forbidden_endpoint');
+      assert.equal(endpoint.status, 403);
+      assert.equal(endpoint.retryable, false);
+
+      await mock.control('scenario', { failingCameras: { '1': 503 } });
+      const upstream = await rejection(vaidio.getCameraSnapshot('api/streaming/1/live.jpg', SERVER_ID));
+      assert.equal(upstream.code, 'upstream_http_error');
+      assert.equal(upstream.retryable, true);
+      assert.deepEqual(upstream.details, { upstreamStatus: 503 });
+
+      const camera = await rejection(vaidio.getCameraSnapshotBinary(3, null, SERVER_ID));
+      assert.equal(camera.code, 'forbidden');
+      assert.equal(vaidio.describeError(camera), "You don't have access to this server or camera.");
+    });
+  } finally {
+    await supabase.auth.signOut({ scope: 'local' });
+    await functions.shutdown();
+    await mock.shutdown();
+  }
+});
@@ -0,0 +1,185 @@
+/**
+ * vaidio-proxy's request handler end to end against the mock Vaidio server:
+ * sign-in, role and camera checks, the request modes and error bodies. Only
+ * the Supabase lookups (session, grants, server row) are stubbed.
+ *
+ * Run: npm test
+ */
+
+import assert from "node:assert/strict";
+import { createTestProxy, SERVER_ID, startMockVaidio } from "./support.ts";
+
+Deno.test('vaidio-proxy handler against the mock Vaidio server', async (t) => {
+  const mock = startMockVaidio();
+  const proxy = createTestProxy(mock, {
+    'admin-token': { serverId: SERVER_ID, role: 'admin', cameraIds: null },
+    'operator-token': { serverId: SERVER_ID, role: 'operator', cameraIds: null },
+    'viewer-token': { serverId: SERVER_ID, role: 'viewer', cameraIds: [1, 2] },
+    'restricted-operator-token': { serverId: SERVER_ID, role: 'operator', cameraIds: [1, 2] },
+  });
+
+  const call = (token: string | null, payload: unknown, headers: Record<string, string> = {}) =>
+    proxy(new Request('http://proxy.local/functions/v1/vaidio-proxy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}), ...headers },
+      body: typeof payload === 'string' ? payload : JSON.stringify(payload),
+    }));
+
+  const step = (name: string, fn: () => Promise<void>) =>
+    t.step(name, async () => {
+      await mock.reset();
+      await fn();
+    });
+
+  try {
+    await step('rejects callers without a session', async () => {
+      const res = await call(null, { endpoint: 'api/cameras' });
+
+      assert.equal(res.status, 401);
+      assert.deepEqual(await res.json(), { error: 'Invalid or expired session', code: 'unauthenticated', retryable: false });
+      assert.deepEqual(await mock.requests(), []);
+    });
+
+    await step('rejects a body that is not a JSON object', async () => {
+      for (const body of ['{endpoint:', 'null', '[]', '5', '"api/cameras"']) {
+        const res = await call('admin-token', body);
+
+        assert.equal(res.status, 400, body);
+        assert.equal((await res.json()).code, 'invalid_input', body);
+      }
+    });
+
+    await step('lists only the cameras a restricted viewer may see', async () => {
+      const all = await call('admin-token', { endpoint: 'api/cameras' });
+      assert.equal((await all.json()).content.length, 4);
+
+      const res = await call('viewer-token', { endpoint: 'api/cameras', serverId: SERVER_ID });
+      const ids = (await res.json()).content.map((c: { cameraId: number }) => c.cameraId);
+      assert.deepEqual(ids, [1, 2]);
+    });
+
+    await step('rejects endpoints outside the role before calling Vaidio', async () => {
+      const res = await call('viewer-token', { endpoint: 'api/alerts' });
+
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, 'forbidden_endpoint');
+      assert.deepEqual(await mock.requests(), []);
+    });
+
+    await step('rejects cameras outside the grant', async () => {
+      const res = await call('viewer-token', { endpoint: 'api/streaming/3/live.jpg', returnImage: true });
+
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, 'forbidden');
+    });
+
+    await step('limits counting to the cameras a restricted caller names and may see', async () => {
+      const counting = (query: string) => call('restricted-operator-token', { endpoint: `api/counting${query}` });
+
+      for (const query of ['', '?start=2026-01-01T00:00:00Z', '?cameraIds=1,3', '?cameraIds=1&cameraIds=3', '?cameraIds=x']) {
+        const res = await counting(query);
+        assert.equal(res.status, 403, query);
+        assert.equal((await res.json()).code, 'forbidden', query);
+      }
+      assert.deepEqual(await mock.requests(), []);
+
+      const allowed = await counting('?cameraIds=1,2');
+      assert.equal(allowed.status, 200);
+      assert.equal((await allowed.json()).content.length, 6);
+
+      const unrestricted = await call('operator-token', { endpoint: 'api/counting' });
+      assert.equal(unrestricted.status, 200);
+    });
+
+    await step('serves binary snapshots and answers 304 for an unchanged frame', async () => {
+      const payload = { endpoint: 'api/streaming/1/live.jpg', returnImage: true, responseType: 'binary' };
+      const first = await call('viewer-token', payload);
+      const etag = first.headers.get('etag')!;
+
+      assert.equal(first.status, 200);
+      assert.equal(first.headers.get('content-type'), 'image/jpeg');
+      assert.ok((await first.arrayBuffer()).byteLength > 0);
+
+      const again = await call('viewer-token', payload, { 'If-None-Match': etag });
+      assert.equal(again.status, 304);
+      assert.equal(await again.text(), '');
+    });
+
+    await step('returns JSON snapshots as data URLs', async () => {
+      const res = await call('viewer-token', { endpoint: 'api/streaming/2/live.jpg', returnImage: true });
+
+      assert.equal(res.status, 200);
+      assert.match((await res.json()).image, /^data:image\/jpeg;base64,/);
+    });
+
+    await step('checks every camera in a batch and sends each image once', async () => {
+      const denied = await call('viewer-token', {
+        batchSnapshots: { '1': 'api/streaming/1/live.jpg', '3': 'api/streaming/3/live.jpg' },
+      });
+      assert.equal(denied.status, 403);
+      assert.equal((await denied.json()).code, 'forbidden');
+
+      const res = await call('viewer-token', {
+        batchSnapshots: { '1': 'api/streaming/1/live.jpg', '2': null },
+      });
+      const { images, results } = await res.json();
+      assert.equal(res.status, 200);
+      assert.match(images['1'], /^data:image\/jpeg;base64,/);
+      assert.equal(images['2'], null);
+      assert.deepEqual(Object.keys(results).sort(), ['1', '2']);
+      assert.equal(results['1'].status, 'ok');
+      assert.equal(results['2'].status, 'missing_path');
+    });
+
+    await step('runs diagnostics for operators only', async () => {
+      const denied = await call('viewer-token', { diagnostics: true });
+      assert.equal(denied.status, 403);
+      assert.equal((await denied.json()).code, 'forbidden');
+
+      const res = await call('operator-token', { diagnostics: true });
+      const report = await res.json();
+      assert.equal(res.status, 200);
+      assert.equal(report.selectedBaseUrl, mock.baseUrl);
+      assert.equal(report.endpoints.cameras.count, 4);
+    });
+
+    await step('reports upstream failures in the shared error model', async () => {
+      const res = await call('admin-token', { endpoint: 'api/cameras/99' });
+
+      assert.equal(res.status, 502);
+      assert.deepEqual(await res.json(), {
+        error: 'Vaidio returned 404 for GET api/cameras/99',
+        code: 'upstream_http_error',
+        retryable: false,
+        details: { upstreamStatus: 404 },
+      });
+    });
+
+    await step('reports failed image fetches in the shared error model', async () => {
+      await mock.control('scenario', { failingCameras: { '1': 503, '2': 404 } });
+
+      for (const responseType of ['json', 'binary']) {
+        const res = await call('admin-token', { endpoint: 'api/streaming/1/live.jpg', returnImage: true, responseType });
+        assert.equal(res.status, 502);
+        assert.deepEqual(await res.json(), {
+          error: 'Failed to fetch image: Vaidio returned 503',
+          code: 'upstream_http_error',
+          retryable: true,
+          details: { upstreamStatus: 503 },
+        });
+      }
+
+      const missing = await call('admin-token', { endpoint: 'api/streaming/2/live.jpg', returnImage: true });
+      assert.equal((await missing.json()).retryable, false);
+    });
+
+    await step('rejects servers the caller has no grant for', async () => {
+      const res = await call('admin-token', { endpoint: 'api/cameras', serverId: '00000000-0000-4000-8000-000000000002' });
+
+      assert.equal(res.status, 403);
+      assert.equal((await res.json()).code, 'forbidden');
+    });
+  } finally {
+    await mock.shutdown();
+  }
+});
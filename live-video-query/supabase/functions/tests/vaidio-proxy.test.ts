@@ -0,0 +1,236 @@
+/**
+ * Integration tests for vaidio-proxy's upstream handling, run against the
+ * mock Vaidio server (mock-vaidio/) on a local port. No network access or
+ * Supabase project is needed.
+ *
+ * Run: npm test
+ */
+
+import assert from "node:assert/strict";
+import { binaryImageResponse } from "../vaidio-proxy/images.ts";
+import {
+  assertAllowedForRole, cameraIdFromEndpoint, DEFAULT_ENDPOINT_POLICY, PolicyError, type EndpointPolicy,
+} from "../vaidio-proxy/policy.ts";
+import { getAccessToken, vaidioFetch } from "../vaidio-proxy/session.ts";
+import { fetchSnapshotBatch } from "../vaidio-proxy/snapshots.ts";
+import { startMockVaidio } from "./support.ts";
+
+Deno.test('vaidio-proxy against the mock Vaidio server', async (t) => {
+  const mock = startMockVaidio();
+  const { control, requests, server } = mock;
+
+  // Every step starts from the default scenario with no cached token
+  const step = (name: string, fn: () => Promise<void>) =>
+    t.step(name, async () => {
+      await mock.reset();
+      await fn();
+    });
+
+  try {
+    await step('allowlist admits every endpoint the plugin uses, and the mock serves them', async () => {
+      const session = await getAccessToken(server());
+      const endpoints = [
+        'api/cameras?statuses=Processing',
+        'api/cameras/1',
+        'api/streaming/1/live.jpg',
+        'api/alerts?start=2026-01-01T00:00:00Z',
+        'api/counting',
+        'api/scenes?query=person',
+        'api/ainvrs',
+        'api/modules',
+      ];
+      for (const endpoint of endpoints) {
+        assertAllowedForRole(DEFAULT_ENDPOINT_POLICY, 'admin', 'GET', endpoint);
+        const res = await vaidioFetch(session, endpoint, { method: 'GET' });
+        await res.body?.cancel();
+        assert.equal(res.status, 200, endpoint);
+      }
+    });
+
+    await step('allowlist rejects other methods, paths and escapes', () => {
+      const rejected: Array<[string, string]> = [
+        ['POST', 'api/cameras'],
+        ['DELETE', 'api/cameras/1'],
+        ['GET', 'api/users'],
+        ['GET', 'api/streaming/1/live.mp4'],
+        ['GET', 'api/cameras/../users'],
+        ['GET', 'api/cameras/%2e%2e/users'],
+        ['GET', 'http://attacker.example/api/cameras'],
+        ['GET', '//attacker.example/api/cameras'],
+        ['GET', 'api\\cameras'],
+      ];
+      for (const [method, endpoint] of rejected) {
+        assert.throws(
+          () => assertAllowedForRole(DEFAULT_ENDPOINT_POLICY, 'admin', method, endpoint),
+          PolicyError,
+          `${method} ${endpoint}`,
+        );
+      }
+      return Promise.resolve();
+    });
+
+    await step('roles narrow the server policy, and admins get no more than it', () => {
+      assert.throws(() => assertAllowedForRole(DEFAULT_ENDPOINT_POLICY, 'viewer', 'GET', 'api/alerts'), PolicyError);
+      assertAllowedForRole(DEFAULT_ENDPOINT_POLICY, 'operator', 'GET', 'api/alerts');
+      assert.throws(() => assertAllowedForRole(DEFAULT_ENDPOINT_POLICY, 'operator', 'GET', 'api/modules'), PolicyError);
+
+      const camerasOnly: EndpointPolicy = { rules: [{ pattern: '/api/cameras', methods: ['GET'] }] };
+      assertAllowedForRole(camerasOnly, 'admin', 'GET', 'api/cameras');
+      assert.throws(() => assertAllowedForRole(camerasOnly, 'admin', 'GET', 'api/modules'), PolicyError);
+
+      assert.equal(cameraIdFromEndpoint('/ainvr/api/streaming/3/live.jpg'), 3);
+      assert.equal(cameraIdFromEndpoint('api/cameras/4/status'), 4);
+      assert.equal(cameraIdFromEndpoint('api/alerts'), null);
+      return Promise.resolve();
+    });
+
+    await step('re-authenticates once after a 401 and replays the request', async () => {
+      const session = await getAccessToken(server());
+      const staleToken = session.token;
+      await control('scenario', { rejectNextApiRequests: 1 });
+
+      const res = await vaidioFetch(session, 'api/cameras', { method: 'GET' });
+      const body = await res.json();
+
+      assert.equal(res.status, 200);
+      assert.equal(body.content.length, 4);
+      assert.notEqual(session.token, staleToken);
+      assert.deepEqual(await requests(), [
+        { method: 'POST', path: '/ainvr/api/oauth2/token', status: 200 },
+        { method: 'GET', path: '/ainvr/api/cameras', status: 401 },
+        { method: 'POST', path: '/ainvr/api/oauth2/token', status: 200 },
+        { method: 'GET', path: '/ainvr/api/cameras', status: 200 },
+      ]);
+    });
+
+    await step('logs in again after the NVR drops every token', async () => {
+      const session = await getAccessToken(server());
+      await control('revoke');
+
+      const res = await vaidioFetch(session, 'api/streaming/1/live.jpg', { method: 'GET' });
+      await res.body?.cancel();
+
+      assert.equal(res.status, 200);
+    });
+
+    await step('gives up after one retry when Vaidio keeps rejecting', async () => {
+      const session = await getAccessToken(server());
+      await control('scenario', { rejectNextApiRequests: 2 });
+
+      const res = await vaidioFetch(session, 'api/cameras', { method: 'GET' });
+      await res.body?.cancel();
+
+      assert.equal(res.status, 401);
+      const calls = (await requests()).filter((r) => r.path === '/ainvr/api/cameras');
+      assert.equal(calls.length, 2);
+    });
+
+    await step('concurrent requests share one login', async () => {
+      await Promise.all(Array.from({ length: 5 }, () => getAccessToken(server())));
+
+      const logins = (await requests()).filter((r) => r.path === '/ainvr/api/oauth2/token');
+      assert.equal(logins.length, 1);
+    });
+
+    await step('passes an upstream 304 through with its ETag', async () => {
+      const session = await getAccessToken(server());
+      const first = await vaidioFetch(session, 'api/streaming/1/live.jpg', { method: 'GET' });
+      await first.body?.cancel();
+      const etag = first.headers.get('etag')!;
+      assert.ok(etag);
+
+      const upstream = await vaidioFetch(session, 'api/streaming/1/live.jpg', {
+        method: 'GET',
+        headers: { 'If-None-Match': etag },
+      });
+      const req = new Request('http://proxy.local', { headers: { 'If-None-Match': etag } });
+      const res = await binaryImageResponse(req, upstream, {});
+
+      assert.equal(res.status, 304);
+      assert.equal(res.headers.get('etag'), etag);
+      assert.equal(await res.text(), '');
+    });
+
+    await step('answers 304 from its own frame hash when Vaidio sends no ETag', async () => {
+      await control('scenario', { sendEtags: false });
+      const session = await getAccessToken(server());
+      const fetchFrame = () => vaidioFetch(session, 'api/streaming/2/live.jpg', { method: 'GET' });
+
+      const first = await binaryImageResponse(new Request('http://proxy.local'), await fetchFrame(), {});
+      const bytes = new Uint8Array(await first.arrayBuffer());
+      const etag = first.headers.get('etag')!;
+      assert.equal(first.status, 200);
+      assert.equal(first.headers.get('content-type'), 'image/jpeg');
+      assert.ok(bytes.length > 0);
+      assert.match(etag, /^"[0-9a-f]{40}"$/);
+
+      const weak = new Request('http://proxy.local', { headers: { 'If-None-Match': `W/${etag}` } });
+      const unchanged = await binaryImageResponse(weak, await fetchFrame(), {});
+      assert.equal(unchanged.status, 304);
+      assert.equal(await unchanged.text(), '');
+
+      const other = new Request('http://proxy.local', { headers: { 'If-None-Match': '"something-else"' } });
+      const changed = await binaryImageResponse(other, await fetchFrame(), {});
+      assert.equal(changed.status, 200);
+      assert.equal((await changed.arrayBuffer()).byteLength, bytes.length);
+    });
+
+    await step('batch reports each camera on its own and times out hanging ones', async () => {
+      await control('scenario', { hangingCameras: [3], failingCameras: { '2': 503 } });
+      const session = await getAccessToken(server());
+
+      const startedAt = Date.now();
+      const { images, results } = await fetchSnapshotBatch([
+        ['1', 'api/streaming/1/live.jpg'],
+        ['2', 'api/streaming/2/live.jpg'],
+        ['3', 'api/streaming/3/live.jpg'],
+        ['4', null],
+      ], session, 1000);
+
+      assert.ok(Date.now() - startedAt < 5000);
+      assert.match(images['1'] ?? '', /^data:image\/jpeg;base64,/);
+      assert.equal(results['1'].status, 'ok');
+      assert.equal(images['2'], null);
+      assert.equal(results['2'].status, 'http_error');
+      assert.equal(results['2'].httpStatus, 503);
+      assert.equal(images['3'], null);
+      assert.equal(results['3'].status, 'timeout');
+      assert.equal(images['4'], null);
+      assert.equal(results['4'].status, 'missing_path');
+      // Image bytes are only sent once, in `images`
+      for (const result of Object.values(results)) assert.ok(!('image' in result));
+    });
+
+    await step('batch deadline also cuts off slow cameras', async () => {
+      await control('scenario', { slowCameras: { '1': 3000 } });
+      const session = await getAccessToken(server());
+
+      const { images, results } = await fetchSnapshotBatch([
+        ['1', 'api/streaming/1/live.jpg'],
+        ['2', 'api/streaming/2/live.jpg'],
+      ], session, 500);
+
+      assert.equal(results['1'].status, 'timeout');
+      assert.equal(images['1'], null);
+      assert.equal(results['2'].status, 'ok');
+    });
+
+    await step('batch deadline also cuts off cameras that stall mid-image', async () => {
+      await control('scenario', { stallingCameras: [1] });
+      const session = await getAccessToken(server());
+
+      const startedAt = Date.now();
+      const { images, results } = await fetchSnapshotBatch([
+        ['1', 'api/streaming/1/live.jpg'],
+        ['2', 'api/streaming/2/live.jpg'],
+      ], session, 500);
+
+      assert.ok(Date.now() - startedAt < 2000);
+      assert.equal(results['1'].status, 'timeout');
+      assert.equal(images['1'], null);
+      assert.equal(results['2'].status, 'ok');
+    });
+  } finally {
+    await mock.shutdown();
+  }
+});
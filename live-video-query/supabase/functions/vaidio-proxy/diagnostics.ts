@@ -0,0 +1,162 @@
+import { redactSecrets } from "../_shared/credentials.ts";
+import {
+  buildVaidioUrl, fetchWithTimeout, getCandidateBaseUrls, normalizeBaseUrl, requestToken,
+  type ServerCreds,
+} from "./upstream.ts";
+
+// Shorter than the proxy default so a full report fits in one request
+const STEP_TIMEOUT_MS = 8000;
+
+export type DiagnosticErrorKind = 'dns' | 'tls' | 'timeout' | 'refused' | 'http' | 'auth' | 'unknown';
+
+export interface DiagnosticStep {
+  ok: boolean;
+  durationMs: number;
+  httpStatus?: number;
+  errorKind?: DiagnosticErrorKind;
+  detail?: string;
+}
+
+export interface CandidateReport {
+  baseUrl: string;
+  /** Whether this candidate is the configured URL or the `http://host:8380` fallback */
+  fallback: boolean;
+  auth: DiagnosticStep;
+}
+
+export interface DiagnosticsReport {
+  serverUrl: string;
+  startedAt: string;
+  totalMs: number;
+  candidates: CandidateReport[];
+  /** First candidate that authenticated, which the proxy would use */
+  selectedBaseUrl: string | null;
+  endpoints: {
+    ainvrs: DiagnosticStep & { count?: number };
+    modules: DiagnosticStep & { count?: number; names?: string[] };
+    cameras: DiagnosticStep & { count?: number };
+  } | null;
+}
+
+function classifyError(error: unknown): Pick<DiagnosticStep, 'errorKind' | 'detail' | 'httpStatus'> {
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return { errorKind: 'timeout', detail: `No response within ${STEP_TIMEOUT_MS / 1000}s` };
+  }
+
+  const message = redactSecrets(error instanceof Error ? error.message : String(error));
+  const authFailure = message.match(/Auth failed: (\d+)/);
+  if (authFailure) {
+    const httpStatus = Number(authFailure[1]);
+    const badCredentials = httpStatus === 400 || httpStatus === 401 || httpStatus === 403;
+    return {
+      errorKind: badCredentials ? 'auth' : 'http',
+      httpStatus,
+      detail: badCredentials ? 'Vaidio rejected the username or password' : `Token endpoint returned HTTP ${httpStatus}`,
+    };
+  }
+  if (/dns error|failed to lookup|Name or service not known|nodename nor servname/i.test(message)) {
+    return { errorKind: 'dns', detail: message };
+  }
+  if (/UnknownIssuer|certificate|tls|ssl|handshake/i.test(message)) return { errorKind: 'tls', detail: message };
+  if (/refused|ECONNREFUSED|Connect/i.test(message)) return { errorKind: 'refused', detail: message };
+  return { errorKind: 'unknown', detail: message };
+}
+
+async function timed<T>(run: () => Promise<T>): Promise<{ result?: T; error?: unknown; durationMs: number }> {
+  const startedAt = Date.now();
+  try {
+    const result = await run();
+    return { result, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return { error, durationMs: Date.now() - startedAt };
+  }
+}
+
+async function checkEndpoint(
+  baseUrl: string,
+  token: string,
+  endpoint: string,
+): Promise<DiagnosticStep & { content?: unknown[] }> {
+  const { result, error, durationMs } = await timed(async () => {
+    const res = await fetchWithTimeout(
+      buildVaidioUrl(baseUrl, endpoint),
+      { method: 'GET', headers: { 'Authorization': `Bearer ${token}` } },
+      STEP_TIMEOUT_MS,
+    );
+    if (!res.ok) {
+      await res.body?.cancel();
+      return { status: res.status, ok: false, body: null };
+    }
+    return { status: res.status, ok: true, body: await res.json().catch(() => null) };
+  });
+
+  if (error) return { ok: false, durationMs, ...classifyError(error) };
+  if (!result!.ok) {
+    return { ok: false, durationMs, httpStatus: result!.status, errorKind: 'http', detail: `HTTP ${result!.status}` };
+  }
+  const content = (result!.body as { content?: unknown } | null)?.content;
+  return { ok: true, durationMs, httpStatus: result!.status, content: Array.isArray(content) ? content : undefined };
+}
+
+/**
+ * Walk through each step the proxy performs for a server and report where it
+ * breaks. Always performs fresh logins and never touches the token cache.
+ */
+export async function runDiagnostics(server: ServerCreds): Promise<DiagnosticsReport> {
+  const startedAt = Date.now();
+  const serverUrl = normalizeBaseUrl(server.url);
+  const candidates: CandidateReport[] = [];
+  let selected: { baseUrl: string; token: string } | null = null;
+
+  for (const baseUrl of getCandidateBaseUrls(server.url)) {
+    const { result, error, durationMs } = await timed(async () =>
+      requestToken(baseUrl, new URLSearchParams({
+        grant_type: 'password',
+        username: server.username,
+        password: await server.getPassword(),
+      }), STEP_TIMEOUT_MS),
+    );
+
+    const auth: DiagnosticStep = error
+      ? { ok: false, durationMs, ...classifyError(error) }
+      : { ok: true, durationMs };
+    candidates.push({ baseUrl, fallback: baseUrl !== serverUrl, auth });
+
+    if (result && !selected) {
+      selected = { baseUrl, token: result.token };
+      break;
+    }
+  }
+
+  let endpoints: DiagnosticsReport['endpoints'] = null;
+  if (selected) {
+    const [ainvrs, modules, cameras] = await Promise.all([
+      checkEndpoint(selected.baseUrl, selected.token, '/api/ainvrs'),
+      checkEndpoint(selected.baseUrl, selected.token, '/api/modules'),
+      checkEndpoint(selected.baseUrl, selected.token, '/api/cameras'),
+    ]);
+    const { content: ainvrsContent, ...ainvrsStep } = ainvrs;
+    const { content: modulesContent, ...modulesStep } = modules;
+    const { content: camerasContent, ...camerasStep } = cameras;
+    endpoints = {
+      ainvrs: { ...ainvrsStep, count: ainvrsContent?.length },
+      modules: {
+        ...modulesStep,
+        count: modulesContent?.length,
+        names: modulesContent
+          ?.map((m) => (m as { name?: unknown } | null)?.name)
+          .filter((n): n is string => typeof n === 'string'),
+      },
+      cameras: { ...camerasStep, count: camerasContent?.length },
+    };
+  }
+
+  return {
+    serverUrl,
+    startedAt: new Date(startedAt).toISOString(),
+    totalMs: Date.now() - startedAt,
+    candidates,
+    selectedBaseUrl: selected?.baseUrl ?? null,
+    endpoints,
+  };
+}
@@ -0,0 +1,241 @@
+import {
+  assertAllowedForRole, cameraIdFromEndpoint, cameraIdsFromQuery, normalizeEndpointPath, PolicyError,
+} from "./policy.ts";
+import {
+  assertCameraAccess, type AuthenticatedUser, AuthError, hasRole, type ServerAccess,
+} from "../_shared/auth.ts";
+import { bytesToBase64 } from "../_shared/base64.ts";
+import { redactSecrets } from "../_shared/credentials.ts";
+import { ApiError, errorResponse, readJsonBody } from "../_shared/errors.ts";
+import { buildVaidioUrl, normalizeBaseUrl, type ServerCreds } from "./upstream.ts";
+import { runDiagnostics } from "./diagnostics.ts";
+import { binaryImageResponse } from "./images.ts";
+import { getAccessToken, vaidioFetch } from "./session.ts";
+import { fetchSnapshotBatch } from "./snapshots.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-none-match, if-modified-since',
+  'Access-Control-Expose-Headers': 'etag, last-modified',
+};
+
+/** Where the handler gets the caller, their grants and the server's credentials. */
+export interface ProxyDeps {
+  authenticate(req: Request): Promise<AuthenticatedUser>;
+  authorizeServer(userId: string, serverId?: string): Promise<ServerAccess>;
+  resolveServer(serverId?: string): Promise<ServerCreds>;
+}
+
+function upstreamHttpError(upstreamStatus: number, message: string): ApiError {
+  return new ApiError('upstream_http_error', message, {
+    retryable: upstreamStatus >= 500,
+    details: { upstreamStatus },
+  });
+}
+
+/** Map anything thrown while handling a request onto the shared error model. */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('upstream_timeout', 'Connection timed out — Vaidio server is unreachable from the cloud backend');
+  }
+
+  const message = error instanceof Error ? redactSecrets(error.message) : 'Unknown error';
+  if (/UnknownIssuer|certificate|dns error|failed to lookup|Connect|refused|error sending request/i.test(message)) {
+    return new ApiError('upstream_unreachable', `Vaidio server is unreachable: ${message}`);
+  }
+  return new ApiError('internal_error', message);
+}
+
+// Drop list entries for cameras the caller may not see
+function filterByCameraAccess(data: unknown, access: ServerAccess): unknown {
+  if (access.cameraIds === null || !data || typeof data !== 'object') return data;
+  const content = (data as { content?: unknown }).content;
+  if (!Array.isArray(content)) return data;
+  return {
+    ...data,
+    content: content.filter((item) => {
+      const cameraId = (item as { cameraId?: unknown } | null)?.cameraId;
+      return typeof cameraId !== 'number' || access.cameraIds!.includes(cameraId);
+    }),
+  };
+}
+
+// Counting buckets carry no cameraId for filterByCameraAccess to check, so a
+// caller limited to some cameras must name them, and only them, in the query
+function assertCountingAccess(access: ServerAccess, endpoint: string): void {
+  if (access.cameraIds === null || normalizeEndpointPath(endpoint) !== '/api/counting') return;
+  const cameraIds = cameraIdsFromQuery(endpoint);
+  if (!cameraIds) throw new AuthError('cameraIds is required with access limited to some cameras', 'forbidden');
+  for (const cameraId of cameraIds) assertCameraAccess(access, cameraId);
+}
+
+interface ProxyRequest {
+  endpoint: string;
+  method: string;
+  body?: unknown;
+  returnImage: boolean;
+  responseType: string;
+  /** Camera id → snapshot path; null when the request isn't a batch */
+  batchSnapshots: Record<string, string | null> | null;
+  serverId?: string;
+  diagnostics: boolean;
+}
+
+/** Check the body's shape; which endpoints it may reach is up to the policy. */
+function parseProxyRequest(raw: Record<string, unknown>): ProxyRequest {
+  const {
+    endpoint = '', method = 'GET', body, returnImage = false, responseType = 'json', batchSnapshots, serverId,
+    diagnostics = false,
+  } = raw;
+  if (typeof endpoint !== 'string') throw new ApiError('invalid_input', 'endpoint must be a string');
+  if (typeof method !== 'string') throw new ApiError('invalid_input', 'method must be a string');
+  if (typeof responseType !== 'string') throw new ApiError('invalid_input', 'responseType must be a string');
+  if (typeof returnImage !== 'boolean') throw new ApiError('invalid_input', 'returnImage must be a boolean');
+  if (typeof diagnostics !== 'boolean') throw new ApiError('invalid_input', 'diagnostics must be a boolean');
+  if (serverId != null && typeof serverId !== 'string') throw new ApiError('invalid_input', 'serverId must be a string');
+
+  let snapshots: Record<string, string | null> | null = null;
+  if (batchSnapshots != null) {
+    if (typeof batchSnapshots !== 'object' || Array.isArray(batchSnapshots)) {
+      throw new ApiError('invalid_input', 'batchSnapshots must map camera ids to snapshot paths');
+    }
+    snapshots = {};
+    for (const [key, path] of Object.entries(batchSnapshots)) {
+      if (path != null && typeof path !== 'string') {
+        throw new ApiError('invalid_input', 'batchSnapshots must map camera ids to snapshot paths');
+      }
+      snapshots[key] = path ?? null;
+    }
+  }
+  if (!snapshots && !diagnostics && !endpoint) throw new ApiError('invalid_input', 'endpoint is required');
+
+  return {
+    endpoint,
+    method,
+    body,
+    returnImage,
+    responseType,
+    batchSnapshots: snapshots,
+    serverId: typeof serverId === 'string' && serverId ? serverId : undefined,
+    diagnostics,
+  };
+}
+
+/**
+ * The proxy's request handler. Sign-in, access grants and server rows come
+ * from `deps`, so it runs without a Supabase project in tests.
+ */
+export function createProxyHandler(deps: ProxyDeps): (req: Request) => Promise<Response> {
+  return async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const user = await deps.authenticate(req);
+      const {
+        endpoint, method, body, returnImage, responseType, batchSnapshots, serverId, diagnostics,
+      } = parseProxyRequest(await readJsonBody(req));
+
+      const access = await deps.authorizeServer(user.id, serverId);
+      const server = await deps.resolveServer(serverId);
+
+      // Connectivity report: reachability and timings only, never response bodies or credentials
+      if (diagnostics) {
+        if (!hasRole(access, 'operator')) throw new AuthError('Diagnostics require operator access', 'forbidden');
+        const report = await runDiagnostics(server);
+        console.log(`[vaidio-proxy] Diagnostics for ${report.serverUrl}: ${report.selectedBaseUrl ? 'ok' : 'failed'} in ${report.totalMs}ms`);
+        return new Response(JSON.stringify(report), {
+          status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Enforce the server policy, role and camera scope before authenticating upstream
+      if (batchSnapshots) {
+        for (const [key, snapshotPath] of Object.entries(batchSnapshots)) {
+          assertCameraAccess(access, Number(key));
+          if (!snapshotPath) continue;
+          assertAllowedForRole(server.policy, access.role, 'GET', snapshotPath);
+          const pathCameraId = cameraIdFromEndpoint(snapshotPath);
+          if (pathCameraId !== null) assertCameraAccess(access, pathCameraId);
+        }
+      } else {
+        assertAllowedForRole(server.policy, access.role, method, endpoint);
+        const cameraId = cameraIdFromEndpoint(endpoint);
+        if (cameraId !== null) assertCameraAccess(access, cameraId);
+        assertCountingAccess(access, endpoint);
+      }
+
+      console.log(`[vaidio-proxy] Connecting to server: ${normalizeBaseUrl(server.url)}`);
+      const session = await getAccessToken(server);
+
+      // Batch snapshot mode
+      if (batchSnapshots) {
+        const { images, results } = await fetchSnapshotBatch(Object.entries(batchSnapshots), session);
+
+        for (const [key, result] of Object.entries(results)) {
+          if (result.status !== 'ok') {
+            console.warn(`[vaidio-proxy] Snapshot ${key}: ${result.status}${result.httpStatus ? ` ${result.httpStatus}` : ''} (${result.latencyMs}ms)`);
+          }
+        }
+
+        return new Response(JSON.stringify({ images, results }), {
+          status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // Single API request
+      console.log(`[vaidio-proxy] ${method} ${buildVaidioUrl(session.baseUrl, endpoint)}`);
+      const isBinary = returnImage && responseType === 'binary';
+      const upstreamHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (isBinary) {
+        // Let Vaidio short-circuit too if it understands our validators
+        const ifNoneMatch = req.headers.get('if-none-match');
+        const ifModifiedSince = req.headers.get('if-modified-since');
+        if (ifNoneMatch) upstreamHeaders['If-None-Match'] = ifNoneMatch;
+        if (ifModifiedSince) upstreamHeaders['If-Modified-Since'] = ifModifiedSince;
+      }
+      const apiResponse = await vaidioFetch(session, endpoint, {
+        method,
+        headers: upstreamHeaders,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (isBinary && (apiResponse.ok || apiResponse.status === 304)) {
+        return binaryImageResponse(req, apiResponse, corsHeaders);
+      }
+
+      if (returnImage) {
+        if (!apiResponse.ok) {
+          await apiResponse.body?.cancel();
+          throw upstreamHttpError(apiResponse.status, `Failed to fetch image: Vaidio returned ${apiResponse.status}`);
+        }
+        const imageBuffer = await apiResponse.arrayBuffer();
+        const contentType = apiResponse.headers.get('content-type') || 'image/jpeg';
+        return new Response(
+          JSON.stringify({ image: `data:${contentType};base64,${bytesToBase64(new Uint8Array(imageBuffer))}` }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!apiResponse.ok) {
+        await apiResponse.body?.cancel();
+        throw upstreamHttpError(apiResponse.status, `Vaidio returned ${apiResponse.status} for ${method} ${endpoint}`);
+      }
+
+      const data = filterByCameraAccess(await apiResponse.json(), access);
+      return new Response(JSON.stringify(data), {
+        status: apiResponse.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    } catch (error: unknown) {
+      const apiError = toApiError(error);
+      if (apiError instanceof AuthError || apiError instanceof PolicyError) {
+        console.warn(`[vaidio-proxy] Rejected (${apiError.code}): ${apiError.message}`);
+      } else {
+        console.error(`[vaidio-proxy] ${apiError.code}: ${apiError.message}`);
+      }
+      return errorResponse(apiError, corsHeaders);
+    }
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Conditional responses for raw snapshot images, so a poller that already has
+ * the current frame gets a 304 instead of the bytes again.
+ */
+
+async function computeEtag(bytes: ArrayBuffer): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', bytes));
+  return `"${Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('')}"`;
+}
+
+function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const bare = etag.replace(/^W\//, '');
+  return ifNoneMatch.split(',').some((t) => {
+    const tag = t.trim();
+    return tag === '*' || tag.replace(/^W\//, '') === bare;
+  });
+}
+
+function notModifiedSince(ifModifiedSince: string | null, lastModified: string): boolean {
+  if (!ifModifiedSince) return false;
+  const since = Date.parse(ifModifiedSince);
+  const modified = Date.parse(lastModified);
+  return Number.isFinite(since) && Number.isFinite(modified) && modified <= since;
+}
+
+/**
+ * Return raw image bytes with validators. The ETag is the upstream one when
+ * Vaidio sends it, otherwise a hash of the frame, so an unchanged frame
+ * answers 304 without a body.
+ */
+export async function binaryImageResponse(
+  req: Request,
+  apiResponse: Response,
+  corsHeaders: Record<string, string>,
+): Promise<Response> {
+  const validatorHeaders = { 'Cache-Control': 'private, no-cache' };
+
+  if (apiResponse.status === 304) {
+    const etag = apiResponse.headers.get('etag');
+    return new Response(null, {
+      status: 304,
+      headers: { ...corsHeaders, ...validatorHeaders, ...(etag ? { 'ETag': etag } : {}) },
+    });
+  }
+
+  const imageBuffer = await apiResponse.arrayBuffer();
+  const contentType = apiResponse.headers.get('content-type') || 'image/jpeg';
+  const etag = apiResponse.headers.get('etag') || await computeEtag(imageBuffer);
+  const upstreamLastModified = apiResponse.headers.get('last-modified');
+  const headers = {
+    ...corsHeaders,
+    ...validatorHeaders,
+    'ETag': etag,
+    ...(upstreamLastModified ? { 'Last-Modified': upstreamLastModified } : {}),
+  };
+
+  // If-None-Match wins over If-Modified-Since when both are sent (RFC 9110)
+  const ifNoneMatch = req.headers.get('if-none-match');
+  const unchanged = ifNoneMatch
+    ? etagMatches(ifNoneMatch, etag)
+    : !!upstreamLastModified && notModifiedSince(req.headers.get('if-modified-since'), upstreamLastModified);
+  if (unchanged) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(imageBuffer, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': contentType, 'Content-Length': String(imageBuffer.byteLength) },
+  });
+}
+
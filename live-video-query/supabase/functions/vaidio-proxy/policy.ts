@@ -0,0 +1,178 @@
+/**
+ * Endpoint/method allowlist for the Vaidio proxy.
+ *
+ * Patterns are matched against the request path with the `/ainvr` prefix and
+ * query string stripped. `*` matches exactly one path segment, `**` matches
+ * any number of trailing segments.
+ */
+
+import type { VaidioRole } from "../_shared/auth.ts";
+import { ApiError } from "../_shared/errors.ts";
+
+export interface EndpointRule {
+  pattern: string;
+  methods: string[];
+}
+
+export interface EndpointPolicy {
+  rules: EndpointRule[];
+}
+
+// Read-only access to the APIs this plugin actually uses
+export const DEFAULT_ENDPOINT_POLICY: EndpointPolicy = {
+  rules: [
+    { pattern: '/api/cameras', methods: ['GET'] },
+    { pattern: '/api/cameras/*', methods: ['GET'] },
+    { pattern: '/api/cameras/*/**', methods: ['GET'] },
+    { pattern: '/api/streaming/*/live.jpg', methods: ['GET'] },
+    { pattern: '/api/alerts', methods: ['GET'] },
+    { pattern: '/api/counting', methods: ['GET'] },
+    { pattern: '/api/scenes', methods: ['GET'] },
+    { pattern: '/api/ainvrs', methods: ['GET'] },
+    { pattern: '/api/modules', methods: ['GET'] },
+  ],
+};
+
+const VIEWER_RULES: EndpointRule[] = [
+  { pattern: '/api/cameras', methods: ['GET'] },
+  { pattern: '/api/cameras/*', methods: ['GET'] },
+  { pattern: '/api/cameras/*/**', methods: ['GET'] },
+  { pattern: '/api/streaming/*/live.jpg', methods: ['GET'] },
+];
+
+const OPERATOR_RULES: EndpointRule[] = [
+  ...VIEWER_RULES,
+  { pattern: '/api/alerts', methods: ['GET'] },
+  { pattern: '/api/counting', methods: ['GET'] },
+  { pattern: '/api/scenes', methods: ['GET'] },
+];
+
+/**
+ * What each role may do, applied on top of the server policy. Admins are
+ * limited by the server policy only.
+ */
+export const ROLE_ENDPOINT_POLICIES: Record<VaidioRole, EndpointPolicy | null> = {
+  viewer: { rules: VIEWER_RULES },
+  operator: { rules: OPERATOR_RULES },
+  admin: null,
+};
+
+export class PolicyError extends ApiError {
+  constructor(message: string, code: 'forbidden_endpoint' | 'invalid_input' = 'forbidden_endpoint') {
+    super(code, message);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Reduce an endpoint to the path the policy is evaluated against.
+ * Rejects anything that could escape the `/ainvr` API root.
+ */
+export function normalizeEndpointPath(endpoint: string): string {
+  if (typeof endpoint !== 'string' || !endpoint.trim()) {
+    throw new PolicyError('Endpoint is required', 'invalid_input');
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(endpoint) || endpoint.startsWith('//') || endpoint.includes('\\')) {
+    throw new PolicyError(`Endpoint not allowed: ${endpoint}`);
+  }
+
+  let path = endpoint.split(/[?#]/)[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    throw new PolicyError(`Endpoint not allowed: ${endpoint}`);
+  }
+  if (!path.startsWith('/')) path = `/${path}`;
+
+  const segments = path.split('/').filter(Boolean);
+  if (segments.some((s) => s === '..' || s === '.')) {
+    throw new PolicyError(`Endpoint not allowed: ${endpoint}`);
+  }
+  if (segments[0] === 'ainvr') segments.shift();
+
+  return `/${segments.join('/')}`;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean);
+  const pathSegments = path.split('/').filter(Boolean);
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    if (segment === '**') return pathSegments.length > i;
+    if (i >= pathSegments.length) return false;
+    if (segment !== '*' && segment !== pathSegments[i]) return false;
+  }
+  return patternSegments.length === pathSegments.length;
+}
+
+export function isAllowed(policy: EndpointPolicy, method: string, endpoint: string): boolean {
+  const path = normalizeEndpointPath(endpoint);
+  const verb = method.toUpperCase();
+  return policy.rules.some(
+    (rule) => rule.methods.some((m) => m.toUpperCase() === verb) && matchesPattern(rule.pattern, path),
+  );
+}
+
+/** Throws a PolicyError unless the policy allows `method endpoint`. */
+export function assertAllowed(policy: EndpointPolicy, method: string, endpoint: string): void {
+  if (!isAllowed(policy, method, endpoint)) {
+    throw new PolicyError(`Endpoint not allowed: ${method.toUpperCase()} ${normalizeEndpointPath(endpoint)}`);
+  }
+}
+
+/** Throws unless both the server policy and the caller's role allow `method endpoint`. */
+export function assertAllowedForRole(
+  policy: EndpointPolicy,
+  role: VaidioRole,
+  method: string,
+  endpoint: string,
+): void {
+  assertAllowed(policy, method, endpoint);
+  const rolePolicy = ROLE_ENDPOINT_POLICIES[role];
+  if (rolePolicy && !isAllowed(rolePolicy, method, endpoint)) {
+    throw new PolicyError(`Endpoint not allowed for ${role}: ${method.toUpperCase()} ${normalizeEndpointPath(endpoint)}`);
+  }
+}
+
+/** Camera id addressed by a per-camera endpoint, if any. */
+export function cameraIdFromEndpoint(endpoint: string): number | null {
+  const match = normalizeEndpointPath(endpoint).match(/^\/api\/(?:cameras|streaming)\/(\d+)(?:\/|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+/** Cameras named in an endpoint's `cameraIds` query parameters; null when it names none. */
+export function cameraIdsFromQuery(endpoint: string): number[] | null {
+  const params = new URL(endpoint, 'http://vaidio.invalid').searchParams;
+  const ids = params.getAll('cameraIds').flatMap((value) => value.split(',')).map((id) => id.trim()).filter(Boolean);
+  return ids.length ? ids.map(Number) : null;
+}
+
+/**
+ * Parse a policy from a `vaidio_servers.endpoint_policy` value or the
+ * VAIDIO_ENDPOINT_POLICY secret. Falls back to the default policy when
+ * nothing (or something malformed) is configured.
+ */
+export function parseEndpointPolicy(raw: unknown): EndpointPolicy {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      console.error('[vaidio-proxy] Ignoring malformed endpoint policy');
+      return DEFAULT_ENDPOINT_POLICY;
+    }
+  }
+
+  const rules = (value as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) return DEFAULT_ENDPOINT_POLICY;
+
+  const valid = rules.filter(
+    (r): r is EndpointRule =>
+      !!r &&
+      typeof r.pattern === 'string' &&
+      Array.isArray(r.methods) &&
+      r.methods.every((m: unknown) => typeof m === 'string'),
+  );
+  return { rules: valid };
+}
@@ -0,0 +1,137 @@
+/**
+ * Upstream sessions: token caching, coalesced logins, refresh-token grants and
+ * a single re-authentication when Vaidio rejects a token.
+ */
+
+import {
+  buildVaidioUrl, fetchWithTimeout, getCandidateBaseUrls, requestToken, type CachedToken, type ServerCreds,
+} from "./upstream.ts";
+
+// Per-server token cache
+const tokenCache = new Map<string, CachedToken>();
+// In-flight logins, so concurrent requests for one server share a single token request
+const pendingLogins = new Map<string, Promise<CachedToken>>();
+
+/** Forget every cached token, so the next request logs in again. */
+export function clearTokenCache(): void {
+  tokenCache.clear();
+}
+
+/**
+ * Get a new token for one base URL, preferring the refresh_token grant when
+ * the previous token came with one. Coalesced per cache key.
+ */
+function login(server: ServerCreds, baseUrl: string, previous?: CachedToken): Promise<CachedToken> {
+  const cacheKey = `${baseUrl}|${server.username}`;
+  const pending = pendingLogins.get(cacheKey);
+  if (pending) return pending;
+
+  const attempt = (async () => {
+    if (previous?.refreshToken) {
+      try {
+        return await requestToken(baseUrl, new URLSearchParams({
+          grant_type: 'refresh_token',
+          refresh_token: previous.refreshToken,
+        }));
+      } catch (error) {
+        console.warn(`[vaidio-proxy] Refresh failed, falling back to password login: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    // Decrypted lazily, only when a password login is actually needed
+    return requestToken(baseUrl, new URLSearchParams({
+      grant_type: 'password',
+      username: server.username,
+      password: await server.getPassword(),
+    }));
+  })()
+    .then((fresh) => {
+      tokenCache.set(cacheKey, fresh);
+      return fresh;
+    })
+    .finally(() => pendingLogins.delete(cacheKey));
+
+  pendingLogins.set(cacheKey, attempt);
+  return attempt;
+}
+
+export interface VaidioSession {
+  server: ServerCreds;
+  baseUrl: string;
+  token: string;
+}
+
+export async function getAccessToken(server: ServerCreds): Promise<VaidioSession> {
+  const candidates = getCandidateBaseUrls(server.url);
+  let lastError: unknown = null;
+
+  for (const candidateUrl of candidates) {
+    const cacheKey = `${candidateUrl}|${server.username}`;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now() + 60000) {
+      return { server, baseUrl: candidateUrl, token: cached.token };
+    }
+
+    try {
+      const { token } = await login(server, candidateUrl, cached);
+      return { server, baseUrl: candidateUrl, token };
+    } catch (error) {
+      lastError = error;
+      const message = error instanceof Error ? error.message : '';
+      const isConnectivityIssue =
+        message.includes('UnknownIssuer') ||
+        message.includes('timed out') ||
+        message.includes('Connect');
+
+      if (!isConnectivityIssue) {
+        throw error;
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error('Auth failed');
+}
+
+/**
+ * Called when Vaidio rejects `staleToken`: evict it and log in again, unless
+ * a concurrent request already replaced it.
+ */
+async function reauthenticate(session: VaidioSession, staleToken: string): Promise<void> {
+  const cacheKey = `${session.baseUrl}|${session.server.username}`;
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.token !== staleToken && cached.expiresAt > Date.now()) {
+    session.token = cached.token;
+    return;
+  }
+
+  tokenCache.delete(cacheKey);
+  const fresh = await login(session.server, session.baseUrl, cached);
+  session.token = fresh.token;
+}
+
+/**
+ * Fetch a Vaidio endpoint with the session token. A 401/403 evicts the token,
+ * re-authenticates once and replays the request.
+ */
+export async function vaidioFetch(
+  session: VaidioSession,
+  endpoint: string,
+  init: RequestInit & { headers?: Record<string, string> },
+  timeoutMs?: number,
+): Promise<Response> {
+  const url = buildVaidioUrl(session.baseUrl, endpoint);
+  const send = (token: string) => fetchWithTimeout(
+    url,
+    { ...init, headers: { ...init.headers, 'Authorization': `Bearer ${token}` } },
+    timeoutMs,
+  );
+
+  const usedToken = session.token;
+  const response = await send(usedToken);
+  if (response.status !== 401 && response.status !== 403) return response;
+
+  console.warn(`[vaidio-proxy] Upstream ${response.status}, re-authenticating and retrying`);
+  await response.body?.cancel();
+  await reauthenticate(session, usedToken);
+  return send(session.token);
+}
+
@@ -0,0 +1,90 @@
+import { bytesToBase64 } from "../_shared/base64.ts";
+import { redactSecrets } from "../_shared/credentials.ts";
+import { vaidioFetch, type VaidioSession } from "./session.ts";
+
+const BATCH_CONCURRENCY = 6;
+// Stays well inside the edge function wall-clock limit
+const BATCH_DEADLINE_MS = 25000;
+const SNAPSHOT_TIMEOUT_MS = 15000;
+
+type SnapshotStatus = 'ok' | 'timeout' | 'http_error' | 'missing_path' | 'error';
+
+/** Per-camera diagnostics; the image itself only goes in `images` */
+export interface SnapshotResult {
+  status: SnapshotStatus;
+  httpStatus?: number;
+  detail?: string;
+  latencyMs: number;
+}
+
+export interface SnapshotBatch {
+  images: Record<string, string | null>;
+  results: Record<string, SnapshotResult>;
+}
+
+async function fetchSnapshot(
+  snapshotPath: string,
+  session: VaidioSession,
+  deadline: number,
+): Promise<{ result: SnapshotResult; image?: string }> {
+  const startedAt = Date.now();
+  const remaining = deadline - startedAt;
+  if (remaining <= 0) return { result: { status: 'timeout', latencyMs: 0 } };
+
+  // Stays armed until the body is read: a camera can stall after sending headers
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), Math.min(SNAPSHOT_TIMEOUT_MS, remaining));
+  try {
+    const res = await vaidioFetch(session, snapshotPath, { method: 'GET', signal: controller.signal });
+    if (!res.ok) {
+      await res.body?.cancel();
+      return { result: { status: 'http_error', httpStatus: res.status, latencyMs: Date.now() - startedAt } };
+    }
+    const buf = await res.arrayBuffer();
+    const contentType = res.headers.get('content-type') || 'image/jpeg';
+    return {
+      result: { status: 'ok', latencyMs: Date.now() - startedAt },
+      image: `data:${contentType};base64,${bytesToBase64(new Uint8Array(buf))}`,
+    };
+  } catch (error) {
+    const latencyMs = Date.now() - startedAt;
+    if (error instanceof DOMException && error.name === 'AbortError') return { result: { status: 'timeout', latencyMs } };
+    const detail = error instanceof Error ? redactSecrets(error.message) : undefined;
+    return { result: { status: 'error', ...(detail ? { detail } : {}), latencyMs } };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch snapshots with at most BATCH_CONCURRENCY in flight. One slow or
+ * failing camera only affects its own entry; anything still pending at the
+ * overall deadline is reported as a timeout.
+ */
+export async function fetchSnapshotBatch(
+  entries: Array<[string, string | null | undefined]>,
+  session: VaidioSession,
+  deadlineMs = BATCH_DEADLINE_MS,
+): Promise<SnapshotBatch> {
+  const deadline = Date.now() + deadlineMs;
+  const batch: SnapshotBatch = { images: {}, results: {} };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const [key, snapshotPath] = entries[next++];
+      if (!snapshotPath) {
+        batch.images[key] = null;
+        batch.results[key] = { status: 'missing_path', latencyMs: 0 };
+        continue;
+      }
+      const { result, image } = await fetchSnapshot(snapshotPath, session, deadline);
+      batch.images[key] = image ?? null;
+      batch.results[key] = result;
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, entries.length) }, worker));
+  return batch;
+}
+
@@ -0,0 +1,79 @@
+import type { EndpointPolicy } from "./policy.ts";
+import { ApiError } from "../_shared/errors.ts";
+
+export interface ServerCreds {
+  url: string;
+  username: string;
+  getPassword: () => Promise<string>;
+  policy: EndpointPolicy;
+}
+
+export interface CachedToken {
+  token: string;
+  expiresAt: number;
+  refreshToken?: string;
+}
+
+export function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+export function getCandidateBaseUrls(baseUrl: string): string[] {
+  const normalized = normalizeBaseUrl(baseUrl);
+  const candidates = [normalized];
+
+  try {
+    const parsed = new URL(normalized);
+    if (parsed.protocol === 'https:') {
+      candidates.push(`http://${parsed.hostname}:8380`);
+    } else if (parsed.protocol === 'http:' && !parsed.port) {
+      candidates.push(`http://${parsed.hostname}:8380`);
+    }
+  } catch {
+    // keep original URL only
+  }
+
+  return [...new Set(candidates)];
+}
+
+export function buildVaidioUrl(baseUrl: string, endpoint: string): string {
+  const root = normalizeBaseUrl(baseUrl);
+  const normalized = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+  if (normalized.startsWith('/ainvr')) {
+    return `${root}${normalized}`;
+  }
+  return `${root}/ainvr${normalized}`;
+}
+
+export function fetchWithTimeout(url: string, options: RequestInit, timeoutMs = 15000): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  // The timeout ends with the headers; a caller's own signal can also bound the body
+  const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+  return fetch(url, { ...options, signal }).finally(() => clearTimeout(timer));
+}
+
+export async function requestToken(baseUrl: string, grant: URLSearchParams, timeoutMs?: number): Promise<CachedToken> {
+  const tokenUrl = `${normalizeBaseUrl(baseUrl)}/ainvr/api/oauth2/token`;
+  console.log(`[vaidio-proxy] Requesting token (${grant.get('grant_type')}) from: ${tokenUrl}`);
+  const tokenResponse = await fetchWithTimeout(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: grant.toString(),
+  }, timeoutMs);
+
+  if (!tokenResponse.ok) {
+    await tokenResponse.body?.cancel();
+    throw new ApiError('auth_failed', `Auth failed: ${tokenResponse.status}`, {
+      details: { upstreamStatus: tokenResponse.status },
+    });
+  }
+
+  const data = await tokenResponse.json();
+  console.log(`[vaidio-proxy] Token acquired successfully`);
+  return {
+    token: data.access_token,
+    expiresAt: Date.now() + ((data.expires_in || 3600) * 1000),
+    refreshToken: data.refresh_token || undefined,
+  };
+}
@@ -0,0 +1,5 @@
+-- Per-server endpoint/method allowlist for the vaidio-proxy edge function.
+-- NULL means the proxy's built-in read-only policy applies.
+-- Example: {"rules": [{"pattern": "/api/cameras", "methods": ["GET"]}]}
+ALTER TABLE public.vaidio_servers
+  ADD COLUMN IF NOT EXISTS endpoint_policy jsonb;
@@ -0,0 +1,27 @@
+-- Which users may use which Vaidio servers through the edge functions, and
+-- with what role. A NULL server_id grants the role on every server
+-- (including the env-configured fallback server).
+--   viewer   - camera list and live snapshots
+--   operator - viewer + alerts, counting and scene search
+--   admin    - anything the server's endpoint policy allows
+CREATE TABLE IF NOT EXISTS public.vaidio_server_access (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  server_id uuid REFERENCES public.vaidio_servers (id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'operator', 'admin')),
+  -- NULL means every camera on the server
+  camera_ids integer[],
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS vaidio_server_access_user_server_key
+  ON public.vaidio_server_access (user_id, COALESCE(server_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.vaidio_server_access ENABLE ROW LEVEL SECURITY;
+
+-- Users may see their own grants; only the service role writes them.
+CREATE POLICY "Users can read their own server access"
+  ON public.vaidio_server_access
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,24 @@
+-- Store Vaidio server passwords encrypted (AES-256-GCM, see
+-- supabase/functions/_shared/credentials.ts). The key lives in the
+-- VAIDIO_CREDENTIALS_KEY function secret, never in the database.
+--
+-- After deploying, run the rotate-vaidio-credentials function once to move
+-- existing plaintext passwords into password_encrypted and clear them.
+ALTER TABLE public.vaidio_servers
+  ADD COLUMN IF NOT EXISTS password_encrypted text;
+
+ALTER TABLE public.vaidio_servers
+  ALTER COLUMN password DROP NOT NULL;
+
+ALTER TABLE public.vaidio_servers
+  DROP CONSTRAINT IF EXISTS vaidio_servers_password_encrypted_format;
+ALTER TABLE public.vaidio_servers
+  ADD CONSTRAINT vaidio_servers_password_encrypted_format
+  CHECK (password_encrypted IS NULL OR password_encrypted LIKE 'enc:v1:%');
+
+-- Credentials are only ever read by edge functions using the service role.
+-- A column-level REVOKE is ignored while the table-level grant stands, so
+-- clients lose the table entirely: no privileges, and RLS with no client
+-- policy as a second barrier.
+REVOKE ALL ON public.vaidio_servers FROM anon, authenticated;
+ALTER TABLE public.vaidio_servers ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,58 @@
+-- Named analysis profiles for query-scene: the system prompt, default model
+-- parameters and one-click questions for a kind of site (retail, parking,
+-- warehouse...). Clients choose a profile by id; query-scene reads the prompt
+-- server-side, so only the service role can read or write these tables.
+-- system_prompt describes the analyst; query-scene appends what the model is
+-- shown (a snapshot, a frame sequence, one of several cameras).
+CREATE TABLE IF NOT EXISTS public.analysis_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  system_prompt text NOT NULL,
+  quick_prompts text[] NOT NULL DEFAULT '{}',
+  -- NULL falls back to the provider default; must be in VLM_MODEL/VLM_MODELS
+  model text,
+  temperature real CHECK (temperature IS NULL OR (temperature >= 0 AND temperature <= 2)),
+  max_tokens integer CHECK (max_tokens IS NULL OR max_tokens > 0),
+  -- Used when no assignment matches the camera
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS analysis_profiles_single_default
+  ON public.analysis_profiles (is_default) WHERE is_default;
+
+-- Default profile per camera or per camera type (Vaidio `cameraType`).
+-- A NULL server_id applies on every server. A camera assignment beats a
+-- camera-type assignment, and a server-specific row beats a NULL one.
+CREATE TABLE IF NOT EXISTS public.analysis_profile_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.analysis_profiles (id) ON DELETE CASCADE,
+  server_id uuid REFERENCES public.vaidio_servers (id) ON DELETE CASCADE,
+  camera_id integer,
+  camera_type text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((camera_id IS NULL) <> (camera_type IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS analysis_profile_assignments_target_key
+  ON public.analysis_profile_assignments (
+    COALESCE(server_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    COALESCE(camera_id, -1),
+    COALESCE(camera_type, '')
+  );
+
+ALTER TABLE public.analysis_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analysis_profile_assignments ENABLE ROW LEVEL SECURITY;
+-- No policies: clients list profiles through query-scene ({"action": "profiles"}).
+
+INSERT INTO public.analysis_profiles (name, description, system_prompt, quick_prompts, is_default)
+VALUES (
+  'General',
+  'General-purpose scene analysis',
+  'You are an expert video surveillance analyst. Answer questions about camera images concisely and accurately, based on what you can see. If you cannot determine the answer from the images, say so honestly.',
+  ARRAY['What is happening?', 'Anything unusual?', 'How many people?', 'Safety concerns?'],
+  true
+)
+ON CONFLICT (name) DO NOTHING;
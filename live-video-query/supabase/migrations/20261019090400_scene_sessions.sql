@@ -0,0 +1,88 @@
+-- Saved investigations: a session is one conversation with query-scene, and
+-- each message records what was asked or answered. Snapshots live in the
+-- private `scene-snapshots` bucket under `<user_id>/<session_id>/`; rows only
+-- hold their paths. Users can only see and change their own sessions.
+CREATE TABLE IF NOT EXISTS public.scene_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'Untitled investigation',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scene_sessions_user_updated_idx
+  ON public.scene_sessions (user_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.scene_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid NOT NULL REFERENCES public.scene_sessions (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL DEFAULT '',
+  camera_id integer,
+  model text,
+  profile_id uuid REFERENCES public.analysis_profiles (id) ON DELETE SET NULL,
+  -- [{ "path": "...", "capturedAt"?: "...", "cameraId"?: 3 }], oldest first
+  snapshots jsonb NOT NULL DEFAULT '[]',
+  -- Set when the retention policy removed the snapshot files
+  snapshots_purged_at timestamptz,
+  structured jsonb,
+  -- Per-camera answers without their images (those are in `snapshots`)
+  camera_answers jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS scene_messages_session_created_idx
+  ON public.scene_messages (session_id, created_at);
+-- For the retention purge
+CREATE INDEX IF NOT EXISTS scene_messages_unpurged_created_idx
+  ON public.scene_messages (created_at) WHERE snapshots_purged_at IS NULL;
+
+ALTER TABLE public.scene_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scene_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own scene sessions"
+  ON public.scene_sessions
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users manage messages in their own scene sessions"
+  ON public.scene_messages
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.scene_sessions s WHERE s.id = session_id AND s.user_id = auth.uid())
+  );
+
+-- Keep the session list ordered by activity
+CREATE OR REPLACE FUNCTION public.touch_scene_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.scene_sessions SET updated_at = now() WHERE id = NEW.session_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS scene_messages_touch_session ON public.scene_messages;
+CREATE TRIGGER scene_messages_touch_session
+  AFTER INSERT ON public.scene_messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_scene_session();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('scene-snapshots', 'scene-snapshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users manage their own scene snapshots"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (bucket_id = 'scene-snapshots' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'scene-snapshots' AND (storage.foldername(name))[1] = auth.uid()::text);
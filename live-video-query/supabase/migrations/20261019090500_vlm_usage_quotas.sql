@@ -0,0 +1,229 @@
+-- VLM usage accounting and quotas. query-scene writes one `vlm_usage` row per
+-- question (tokens as reported by the provider's stream) and checks
+-- `vlm_quotas` before calling the provider. Quotas apply to a user or to a
+-- team, per UTC day or month; a team quota counts every member's usage.
+-- Quotas are soft limits: usage is only written once a question finishes, so
+-- questions started together can all pass the check and overshoot the limit.
+--
+-- Usage admins are users with a global (server_id NULL) `admin` grant in
+-- vaidio_server_access.
+CREATE OR REPLACE FUNCTION public.is_vaidio_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.vaidio_server_access
+    WHERE user_id = auth.uid() AND server_id IS NULL AND role = 'admin'
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS public.teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+  team_id uuid NOT NULL REFERENCES public.teams (id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  PRIMARY KEY (team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS team_members_user_idx ON public.team_members (user_id);
+
+CREATE TABLE IF NOT EXISTS public.vlm_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  -- Copied so the usage view can name users without reading auth.users
+  user_email text,
+  server_id uuid REFERENCES public.vaidio_servers (id) ON DELETE SET NULL,
+  camera_id integer,
+  provider text NOT NULL,
+  model text NOT NULL,
+  -- snapshot, sequence, structured, cameras or agent
+  mode text NOT NULL,
+  -- 0 when the provider doesn't report usage
+  prompt_tokens integer NOT NULL DEFAULT 0,
+  completion_tokens integer NOT NULL DEFAULT 0,
+  image_count integer NOT NULL DEFAULT 0,
+  latency_ms integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS vlm_usage_user_created_idx ON public.vlm_usage (user_id, created_at);
+CREATE INDEX IF NOT EXISTS vlm_usage_created_idx ON public.vlm_usage (created_at);
+
+CREATE TABLE IF NOT EXISTS public.vlm_quotas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users (id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams (id) ON DELETE CASCADE,
+  period text NOT NULL CHECK (period IN ('day', 'month')),
+  -- Prompt plus completion tokens; NULL means no token limit
+  token_limit bigint CHECK (token_limit IS NULL OR token_limit > 0),
+  -- Questions; NULL means no query limit
+  query_limit integer CHECK (query_limit IS NULL OR query_limit > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((user_id IS NULL) <> (team_id IS NULL)),
+  CHECK (token_limit IS NOT NULL OR query_limit IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS vlm_quotas_target_period_key
+  ON public.vlm_quotas (COALESCE(user_id, team_id), period);
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vlm_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vlm_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage teams" ON public.teams
+  FOR ALL TO authenticated USING (public.is_vaidio_admin()) WITH CHECK (public.is_vaidio_admin());
+CREATE POLICY "Members can read their teams" ON public.teams
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.team_members m WHERE m.team_id = teams.id AND m.user_id = auth.uid()));
+
+CREATE POLICY "Admins manage team members" ON public.team_members
+  FOR ALL TO authenticated USING (public.is_vaidio_admin()) WITH CHECK (public.is_vaidio_admin());
+CREATE POLICY "Users can read their own memberships" ON public.team_members
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Only query-scene (service role) writes usage
+CREATE POLICY "Users read their own usage, admins read all" ON public.vlm_usage
+  FOR SELECT TO authenticated USING (user_id = auth.uid() OR public.is_vaidio_admin());
+
+CREATE POLICY "Admins manage quotas" ON public.vlm_quotas
+  FOR ALL TO authenticated USING (public.is_vaidio_admin()) WITH CHECK (public.is_vaidio_admin());
+CREATE POLICY "Users can read their own quotas" ON public.vlm_quotas
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Every quota that applies to a user, with what has been used in its current
+-- period. Called by query-scene with the service role before each question.
+CREATE OR REPLACE FUNCTION public.vlm_quota_usage(p_user_id uuid)
+RETURNS TABLE (
+  quota_id uuid, scope text, period text, token_limit bigint, query_limit integer,
+  tokens_used bigint, queries_used bigint, resets_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH applicable AS (
+    SELECT q.*, date_trunc(q.period, now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' AS period_start
+    FROM public.vlm_quotas q
+    WHERE q.user_id = p_user_id
+       OR q.team_id IN (SELECT team_id FROM public.team_members WHERE user_id = p_user_id)
+  )
+  SELECT
+    a.id,
+    CASE WHEN a.team_id IS NULL THEN 'user' ELSE 'team' END,
+    a.period,
+    a.token_limit,
+    a.query_limit,
+    COALESCE(SUM(u.prompt_tokens + u.completion_tokens), 0)::bigint,
+    COUNT(u.id),
+    a.period_start + ('1 ' || a.period)::interval
+  FROM applicable a
+  LEFT JOIN public.vlm_usage u
+    ON u.created_at >= a.period_start
+   AND (u.user_id = a.user_id
+        OR u.user_id IN (SELECT m.user_id FROM public.team_members m WHERE m.team_id = a.team_id))
+  GROUP BY a.id, a.team_id, a.period, a.token_limit, a.query_limit, a.period_start;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.vlm_quota_usage(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Usage since a time, grouped by user, camera and model. Runs as the caller,
+-- so users see their own usage and admins see everyone's.
+CREATE OR REPLACE FUNCTION public.vlm_usage_breakdown(p_since timestamptz)
+RETURNS TABLE (
+  user_id uuid, user_email text, camera_id integer, model text,
+  queries bigint, prompt_tokens bigint, completion_tokens bigint, images bigint, avg_latency_ms integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    u.user_id,
+    max(u.user_email),
+    u.camera_id,
+    u.model,
+    COUNT(*),
+    SUM(u.prompt_tokens)::bigint,
+    SUM(u.completion_tokens)::bigint,
+    SUM(u.image_count)::bigint,
+    AVG(u.latency_ms)::integer
+  FROM public.vlm_usage u
+  WHERE u.created_at >= p_since
+  GROUP BY u.user_id, u.camera_id, u.model;
+$$;
+
+-- Quotas with the user's email or the team's name, for the admin view
+CREATE OR REPLACE FUNCTION public.list_vlm_quotas()
+RETURNS TABLE (
+  id uuid, user_email text, team_name text, period text, token_limit bigint, query_limit integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_vaidio_admin() THEN
+    RAISE EXCEPTION 'Only admins can list quotas' USING ERRCODE = '42501';
+  END IF;
+  RETURN QUERY
+    SELECT q.id, au.email::text, t.name, q.period, q.token_limit, q.query_limit
+    FROM public.vlm_quotas q
+    LEFT JOIN auth.users au ON au.id = q.user_id
+    LEFT JOIN public.teams t ON t.id = q.team_id
+    ORDER BY COALESCE(au.email::text, t.name), q.period;
+END;
+$$;
+
+-- Create or replace a quota for a user (by email) or a team (by name)
+CREATE OR REPLACE FUNCTION public.set_vlm_quota(
+  p_user_email text, p_team_name text, p_period text, p_token_limit bigint, p_query_limit integer
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_team_id uuid;
+  v_id uuid;
+BEGIN
+  IF NOT public.is_vaidio_admin() THEN
+    RAISE EXCEPTION 'Only admins can set quotas' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_email IS NOT NULL THEN
+    SELECT au.id INTO v_user_id FROM auth.users au WHERE lower(au.email) = lower(p_user_email);
+    IF v_user_id IS NULL THEN
+      RAISE EXCEPTION 'No user with email %', p_user_email USING ERRCODE = 'P0002';
+    END IF;
+  ELSE
+    SELECT t.id INTO v_team_id FROM public.teams t WHERE t.name = p_team_name;
+    IF v_team_id IS NULL THEN
+      RAISE EXCEPTION 'No team named %', p_team_name USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  DELETE FROM public.vlm_quotas
+  WHERE COALESCE(user_id, team_id) = COALESCE(v_user_id, v_team_id) AND period = p_period;
+
+  INSERT INTO public.vlm_quotas (user_id, team_id, period, token_limit, query_limit)
+  VALUES (v_user_id, v_team_id, p_period, p_token_limit, p_query_limit)
+  RETURNING vlm_quotas.id INTO v_id;
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_vlm_quotas() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_vlm_quota(text, text, text, bigint, integer) FROM PUBLIC, anon;
@@ -0,0 +1,5 @@
+-- Tool calls an agent-mode answer made, saved with the answer so reopened
+-- sessions show the same steps. Snapshots fetched by tools are not kept.
+--   [{ "id": "...", "name": "get_alerts", "arguments": {...}, "result": { "summary": "...", "error"?: {...} } }]
+ALTER TABLE public.scene_messages
+  ADD COLUMN IF NOT EXISTS steps jsonb;
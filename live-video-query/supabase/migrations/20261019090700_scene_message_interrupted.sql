@@ -0,0 +1,4 @@
+-- Answers the user cancelled, or that failed partway, keep what streamed
+-- before they stopped and are marked as interrupted.
+ALTER TABLE public.scene_messages
+  ADD COLUMN IF NOT EXISTS interrupted boolean NOT NULL DEFAULT false;
@@ -0,0 +1,66 @@
+-- Let the client pick between Vaidio servers. Users can't read
+-- vaidio_servers directly, so list_vaidio_servers() returns the active
+-- servers the caller has a grant for (a NULL server_id grant covers every
+-- server) with only their id, display name and role; never URLs or
+-- credentials.
+ALTER TABLE public.vaidio_servers
+  ADD COLUMN IF NOT EXISTS name text;
+
+CREATE OR REPLACE FUNCTION public.list_vaidio_servers()
+RETURNS TABLE (id uuid, name text, is_default boolean, role text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id,
+         COALESCE(NULLIF(s.name, ''), 'Server ' || left(s.id::text, 8)),
+         COALESCE(s.is_default, false),
+         a.role
+  FROM public.vaidio_servers s
+  CROSS JOIN LATERAL (
+    -- A grant for the specific server takes precedence over a global one
+    SELECT role FROM public.vaidio_server_access
+    WHERE user_id = auth.uid() AND (server_id = s.id OR server_id IS NULL)
+    ORDER BY server_id NULLS LAST
+    LIMIT 1
+  ) a
+  WHERE s.is_active
+  ORDER BY COALESCE(s.is_default, false) DESC, 2;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_vaidio_servers() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_vaidio_servers() TO authenticated;
+
+-- The server a question's camera belongs to, so a reopened session asks the
+-- same server again. NULL means the env-configured fallback server.
+ALTER TABLE public.scene_messages
+  ADD COLUMN IF NOT EXISTS server_id uuid REFERENCES public.vaidio_servers (id) ON DELETE SET NULL;
+
+-- Camera ids are only unique per server, so usage is broken down by both
+DROP FUNCTION IF EXISTS public.vlm_usage_breakdown(timestamptz);
+CREATE FUNCTION public.vlm_usage_breakdown(p_since timestamptz)
+RETURNS TABLE (
+  user_id uuid, user_email text, server_id uuid, camera_id integer, model text,
+  queries bigint, prompt_tokens bigint, completion_tokens bigint, images bigint, avg_latency_ms integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    u.user_id,
+    max(u.user_email),
+    u.server_id,
+    u.camera_id,
+    u.model,
+    COUNT(*),
+    SUM(u.prompt_tokens)::bigint,
+    SUM(u.completion_tokens)::bigint,
+    SUM(u.image_count)::bigint,
+    AVG(u.latency_ms)::integer
+  FROM public.vlm_usage u
+  WHERE u.created_at >= p_since
+  GROUP BY u.user_id, u.server_id, u.camera_id, u.model;
+$$;
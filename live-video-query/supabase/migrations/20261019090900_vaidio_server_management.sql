@@ -0,0 +1,21 @@
+-- Server management through the manage-vaidio-servers function. Making a
+-- server the default has to clear the flag on every other row in the same
+-- transaction, so it goes through this function rather than two updates.
+-- Only the service role (the edge function) may call it.
+CREATE OR REPLACE FUNCTION public.set_default_vaidio_server(p_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.vaidio_servers WHERE id = p_id AND is_active) THEN
+    RAISE EXCEPTION 'Only an active server can be the default' USING ERRCODE = '22023';
+  END IF;
+  UPDATE public.vaidio_servers
+  SET is_default = (id = p_id)
+  WHERE is_default OR id = p_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_default_vaidio_server(uuid) FROM PUBLIC, anon, authenticated;